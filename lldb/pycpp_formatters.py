@@ -0,0 +1,500 @@
+"""LLDB formatters for array types that cross the Python/C++ boundary.
+
+Loaded by the pycpp-debug proxy with `command script import` when LLDB attaches.
+Each value gets a summary with its shape, dtype and strides (in bytes), and its
+first elements as children, named by their index.
+
+Covered types:
+- pybind11::array and pybind11::array_t<T> (reads the NumPy array object)
+- pybind11::buffer_info
+- nanobind::ndarray<...> (reads the DLPack tensor)
+- Eigen::Matrix and Eigen::Array (dense storage)
+"""
+
+import struct
+
+import lldb
+
+# Children shown per array; the summary shows the first few of them.
+MAX_ELEMENTS = 64
+SUMMARY_ELEMENTS = 6
+# Arrays with more dimensions are treated as unreadable memory.
+MAX_DIMENSIONS = 32
+
+_MODULE = __name__
+
+# NumPy array object (PyArrayObject_fields), after PyObject_HEAD.
+_NP_HEAD_POINTERS = 2
+# NumPy dtype object (PyArray_Descr): kind, type and byteorder chars follow typeobj.
+_NP_DESCR_KIND_POINTERS = 3
+
+# DLPack type codes used by nanobind.
+_DLPACK_KINDS = {0: "i", 1: "u", 2: "f", 4: "bf", 5: "c", 6: "b"}
+
+# Buffer-protocol format chars (native sizes) to NumPy-style dtype kinds.
+_FORMAT_KINDS = {
+    "?": "b",
+    "b": "i", "h": "i", "i": "i", "l": "i", "q": "i", "n": "i",
+    "B": "u", "H": "u", "I": "u", "L": "u", "Q": "u", "N": "u",
+    "e": "f", "f": "f", "d": "f", "g": "f",
+    "Zf": "c", "Zd": "c", "Zg": "c", "F": "c", "D": "c", "G": "c",
+}
+_LONG_DOUBLE_SIZE = 16
+_COMPLEX_FORMATS = {"Zf": 8, "Zd": 16, "Zg": 2 * _LONG_DOUBLE_SIZE, "F": 8, "D": 16, "G": 2 * _LONG_DOUBLE_SIZE}
+
+# LLDB basic types for (kind, itemsize).
+_BASIC_TYPES = {
+    ("b", 1): lldb.eBasicTypeBool,
+    ("i", 1): lldb.eBasicTypeSignedChar,
+    ("i", 2): lldb.eBasicTypeShort,
+    ("i", 4): lldb.eBasicTypeInt,
+    ("i", 8): lldb.eBasicTypeLongLong,
+    ("u", 1): lldb.eBasicTypeUnsignedChar,
+    ("u", 2): lldb.eBasicTypeUnsignedShort,
+    ("u", 4): lldb.eBasicTypeUnsignedInt,
+    ("u", 8): lldb.eBasicTypeUnsignedLongLong,
+    ("f", 4): lldb.eBasicTypeFloat,
+    ("f", 8): lldb.eBasicTypeDouble,
+    ("f", 16): lldb.eBasicTypeLongDouble,
+    ("c", 8): lldb.eBasicTypeFloatComplex,
+    ("c", 16): lldb.eBasicTypeDoubleComplex,
+}
+
+
+class ArrayLayout:
+    """Where an array's elements live and how to read them."""
+
+    def __init__(self, data, shape, strides, kind, itemsize, dtype=None, element_type=None):
+        self.data = data
+        self.shape = list(shape)
+        self.strides = list(strides)
+        self.kind = kind
+        self.itemsize = itemsize
+        self.dtype = dtype or dtype_name(kind, itemsize)
+        self.element_type = element_type
+
+    def size(self):
+        count = 1
+        for extent in self.shape:
+            count *= extent
+        return count
+
+
+def dtype_name(kind, itemsize):
+    names = {"b": "bool", "i": "int", "u": "uint", "f": "float", "bf": "bfloat", "c": "complex"}
+    if kind == "b":
+        return "bool"
+    if kind in names:
+        return "%s%d" % (names[kind], itemsize * 8)
+    return "%s%d" % (kind or "void", itemsize * 8)
+
+
+def format_kind(fmt):
+    """Kind and item size of a buffer-protocol format string such as '<f' or 'd'."""
+    fmt = fmt.lstrip("@=<>!")
+    if fmt in _COMPLEX_FORMATS:
+        return "c", _COMPLEX_FORMATS[fmt]
+    kind = _FORMAT_KINDS.get(fmt)
+    if kind is None:
+        return None, 0
+    if fmt == "g":
+        return kind, _LONG_DOUBLE_SIZE
+    try:
+        return kind, struct.calcsize(fmt)
+    except struct.error:
+        return None, 0
+
+
+def contiguous_strides(shape, itemsize, row_major=True):
+    strides = [0] * len(shape)
+    step = itemsize
+    dims = range(len(shape) - 1, -1, -1) if row_major else range(len(shape))
+    for dim in dims:
+        strides[dim] = step
+        step *= max(shape[dim], 1)
+    return strides
+
+
+def element_indices(shape, limit):
+    """The first `limit` multi-indices in row-major order."""
+    if any(extent <= 0 for extent in shape):
+        return
+    index = [0] * len(shape)
+    for _ in range(limit):
+        yield tuple(index)
+        dim = len(shape) - 1
+        while dim >= 0:
+            index[dim] += 1
+            if index[dim] < shape[dim]:
+                break
+            index[dim] = 0
+            dim -= 1
+        if dim < 0:
+            return
+
+
+def index_name(index):
+    return "[%s]" % ",".join(str(i) for i in index)
+
+
+def describe(layout):
+    shape = "(%s)" % ", ".join(str(extent) for extent in layout.shape)
+    strides = "(%s)" % ", ".join(str(stride) for stride in layout.strides)
+    if len(layout.shape) == 1:
+        shape = "(%d,)" % layout.shape[0]
+        strides = "(%d,)" % layout.strides[0]
+    return "shape=%s dtype=%s strides=%s" % (shape, layout.dtype, strides)
+
+
+# --- Memory access -----------------------------------------------------------
+
+
+def _read_pointer(process, address):
+    error = lldb.SBError()
+    value = process.ReadPointerFromMemory(address, error)
+    return value if error.Success() else None
+
+
+def _read_unsigned(process, address, size):
+    error = lldb.SBError()
+    value = process.ReadUnsignedFromMemory(address, size, error)
+    return value if error.Success() else None
+
+
+def _read_signed_array(process, address, count, size=8):
+    if count == 0:
+        return []
+    error = lldb.SBError()
+    data = process.ReadMemory(address, count * size, error)
+    if not error.Success() or data is None:
+        return None
+    order = ">" if process.GetByteOrder() == lldb.eByteOrderBig else "<"
+    code = {4: "i", 8: "q"}[size]
+    return list(struct.unpack("%s%d%s" % (order, count, code), data))
+
+
+def _unsigned(value):
+    return value.GetValueAsUnsigned(0) if value and value.IsValid() else 0
+
+
+def _signed(value):
+    return value.GetValueAsSigned(0) if value and value.IsValid() else 0
+
+
+def _member(value, *path):
+    for name in path:
+        if not value or not value.IsValid():
+            return None
+        value = value.GetChildMemberWithName(name)
+    return value if value and value.IsValid() else None
+
+
+def _sequence(value):
+    """Integers of a std::vector through LLDB's standard-library formatters."""
+    if value is None:
+        return None
+    synthetic = value.GetSyntheticValue()
+    if synthetic and synthetic.IsValid():
+        value = synthetic
+    count = value.GetNumChildren()
+    if count > MAX_DIMENSIONS:
+        return None
+    return [_signed(value.GetChildAtIndex(i)) for i in range(count)]
+
+
+def _string(value):
+    if value is None:
+        return None
+    summary = value.GetSummary()
+    if summary and len(summary) >= 2 and summary[0] == summary[-1] == '"':
+        return summary[1:-1]
+    return summary
+
+
+# --- Per-type layouts ----------------------------------------------------------
+
+
+def numpy_layout(valobj):
+    """pybind11::array: `m_ptr` points to a NumPy array object."""
+    raw = valobj.GetNonSyntheticValue()
+    address = _unsigned(_member(raw, "m_ptr"))
+    process = valobj.GetProcess()
+    pointer_size = valobj.GetTarget().GetAddressByteSize()
+    if not address:
+        return None
+    fields = address + _NP_HEAD_POINTERS * pointer_size
+    data = _read_pointer(process, fields)
+    ndim = _read_unsigned(process, fields + pointer_size, 4)
+    dims = _read_pointer(process, fields + 2 * pointer_size)
+    strides = _read_pointer(process, fields + 3 * pointer_size)
+    descr = _read_pointer(process, fields + 5 * pointer_size)
+    if data is None or ndim is None or ndim > MAX_DIMENSIONS or not descr:
+        return None
+    shape = _read_signed_array(process, dims, ndim, pointer_size) if ndim else []
+    byte_strides = _read_signed_array(process, strides, ndim, pointer_size) if ndim else []
+    type_char = _read_unsigned(process, descr + _NP_DESCR_KIND_POINTERS * pointer_size + 1, 1)
+    if shape is None or byte_strides is None or type_char is None:
+        return None
+    kind, itemsize = format_kind(chr(type_char))
+    value_type = raw.GetType().GetNonReferenceType().GetCanonicalType()
+    element_type = None
+    if value_type.GetNumberOfTemplateArguments() > 0:
+        element_type = value_type.GetTemplateArgumentType(0)
+    layout = ArrayLayout(data, shape, byte_strides, kind, itemsize, element_type=element_type)
+    if kind is None:
+        layout.dtype = "'%s'" % chr(type_char)
+    return layout
+
+
+def buffer_info_layout(valobj):
+    raw = valobj.GetNonSyntheticValue()
+    data = _unsigned(_member(raw, "ptr"))
+    itemsize = _signed(_member(raw, "itemsize"))
+    fmt = _string(_member(raw, "format")) or ""
+    shape = _sequence(_member(raw, "shape"))
+    strides = _sequence(_member(raw, "strides"))
+    if shape is None or strides is None or len(shape) != len(strides):
+        return None
+    kind, size = format_kind(fmt)
+    layout = ArrayLayout(data, shape, strides, kind, itemsize or size)
+    if kind is None:
+        layout.dtype = "format '%s'" % fmt
+    return layout
+
+
+def ndarray_layout(valobj):
+    """nanobind::ndarray: the DLPack tensor in `m_dltensor` (strides in elements)."""
+    raw = valobj.GetNonSyntheticValue()
+    tensor = _member(raw, "m_dltensor")
+    if tensor is None:
+        return None
+    process = valobj.GetProcess()
+    data = _unsigned(_member(tensor, "data")) + _unsigned(_member(tensor, "byte_offset"))
+    ndim = _signed(_member(tensor, "ndim"))
+    code = _unsigned(_member(tensor, "dtype", "code"))
+    bits = _unsigned(_member(tensor, "dtype", "bits"))
+    if ndim < 0 or ndim > MAX_DIMENSIONS:
+        return None
+    itemsize = max(bits // 8, 1)
+    shape = _read_signed_array(process, _unsigned(_member(tensor, "shape")), ndim)
+    strides_address = _unsigned(_member(tensor, "strides"))
+    if shape is None:
+        return None
+    if strides_address:
+        strides = _read_signed_array(process, strides_address, ndim)
+        if strides is None:
+            return None
+        strides = [stride * itemsize for stride in strides]
+    else:
+        strides = contiguous_strides(shape, itemsize)
+    return ArrayLayout(data, shape, strides, _DLPACK_KINDS.get(code), itemsize)
+
+
+def _template_arguments(type_name):
+    """Top-level template arguments of a type name, as strings."""
+    start = type_name.find("<")
+    if start < 0:
+        return []
+    args, depth, current = [], 0, ""
+    for char in type_name[start + 1:]:
+        if char == "<":
+            depth += 1
+        elif char == ">":
+            if depth == 0:
+                break
+            depth -= 1
+        elif char == "," and depth == 0:
+            args.append(current.strip())
+            current = ""
+            continue
+        current += char
+    args.append(current.strip())
+    return args
+
+
+def eigen_layout(valobj):
+    """Eigen::Matrix/Array: sizes come from the type, or from DenseStorage when dynamic."""
+    raw = valobj.GetNonSyntheticValue()
+    value_type = raw.GetType().GetNonReferenceType().GetCanonicalType()
+    args = _template_arguments(value_type.GetName())
+    if len(args) < 3:
+        return None
+    try:
+        rows, cols = int(args[1]), int(args[2])
+        options = int(args[3]) if len(args) > 3 else 0
+    except ValueError:
+        return None
+    storage = _member(raw, "m_storage")
+    if storage is None:
+        return None
+    data_member = _member(storage, "m_data")
+    if data_member is None:
+        return None
+    if data_member.GetType().IsPointerType():
+        data = _unsigned(data_member)
+    else:
+        # Fixed size: plain_array holding the elements inline.
+        data = data_member.GetLoadAddress()
+    if rows < 0:
+        rows = _signed(_member(storage, "m_rows"))
+    if cols < 0:
+        cols = _signed(_member(storage, "m_cols"))
+    scalar = value_type.GetTemplateArgumentType(0)
+    itemsize = scalar.GetByteSize() if scalar.IsValid() else 0
+    if itemsize <= 0 or rows < 0 or cols < 0:
+        return None
+    row_major = bool(options & 1)
+    shape = [rows, cols]
+    strides = contiguous_strides(shape, itemsize, row_major)
+    basic = scalar.GetCanonicalType().GetBasicType()
+    kind = _basic_kind(basic)
+    return ArrayLayout(
+        data, shape, strides, kind, itemsize,
+        dtype=scalar.GetName() if kind is None else None,
+        element_type=scalar,
+    )
+
+
+def _basic_kind(basic):
+    for (kind, _size), candidate in _BASIC_TYPES.items():
+        if candidate == basic:
+            return kind
+    if basic in (lldb.eBasicTypeLong, lldb.eBasicTypeChar, lldb.eBasicTypeWChar, lldb.eBasicTypeChar16, lldb.eBasicTypeChar32):
+        return "i"
+    if basic == lldb.eBasicTypeUnsignedLong:
+        return "u"
+    return None
+
+
+# --- LLDB providers ------------------------------------------------------------
+
+_LAYOUTS = {
+    "numpy": numpy_layout,
+    "buffer_info": buffer_info_layout,
+    "ndarray": ndarray_layout,
+    "eigen": eigen_layout,
+}
+
+
+class ArraySyntheticProvider:
+    """Children: the first MAX_ELEMENTS elements, in row-major index order."""
+
+    read_layout = None
+
+    def __init__(self, valobj, _internal_dict):
+        self.valobj = valobj
+        self.layout = None
+        self.indices = []
+
+    def update(self):
+        try:
+            self.layout = self.read_layout(self.valobj)
+        except Exception:
+            # A formatter must never break the variables view.
+            self.layout = None
+        self.indices = []
+        if self.layout and self.layout.data and self._element_type():
+            self.indices = list(element_indices(self.layout.shape, MAX_ELEMENTS))
+        return False
+
+    def num_children(self):
+        return len(self.indices)
+
+    def get_child_index(self, name):
+        for i, index in enumerate(self.indices):
+            if index_name(index) == name:
+                return i
+        return -1
+
+    def get_child_at_index(self, i):
+        if i < 0 or i >= len(self.indices):
+            return None
+        index = self.indices[i]
+        offset = sum(position * stride for position, stride in zip(index, self.layout.strides))
+        address = self.layout.data + offset
+        return self.valobj.CreateValueFromAddress(index_name(index), address, self._element_type())
+
+    def has_children(self):
+        return True
+
+    def _element_type(self):
+        layout = self.layout
+        if layout.element_type is not None and layout.element_type.IsValid():
+            return layout.element_type
+        basic = _BASIC_TYPES.get((layout.kind, layout.itemsize))
+        if basic is None:
+            return None
+        layout.element_type = self.valobj.GetTarget().GetBasicType(basic)
+        return layout.element_type
+
+
+def _provider(layout_key):
+    return type(
+        "%sSyntheticProvider" % layout_key.title().replace("_", ""),
+        (ArraySyntheticProvider,),
+        {"read_layout": staticmethod(_LAYOUTS[layout_key])},
+    )
+
+
+NumpySyntheticProvider = _provider("numpy")
+BufferInfoSyntheticProvider = _provider("buffer_info")
+NdarraySyntheticProvider = _provider("ndarray")
+EigenSyntheticProvider = _provider("eigen")
+
+
+def _summary(layout_key, valobj):
+    try:
+        layout = _LAYOUTS[layout_key](valobj)
+    except Exception:
+        layout = None
+    if layout is None:
+        return "<unreadable array>"
+    if not layout.data and layout.size() > 0:
+        return "null %s" % describe(layout)
+    text = describe(layout)
+    values = []
+    count = min(valobj.GetNumChildren(), SUMMARY_ELEMENTS)
+    for i in range(count):
+        child = valobj.GetChildAtIndex(i)
+        values.append(child.GetValue() or child.GetSummary() or "?")
+    if values:
+        more = ", ..." if layout.size() > len(values) else ""
+        text += " [%s%s]" % (", ".join(values), more)
+    return text
+
+
+def numpy_summary(valobj, _internal_dict):
+    return _summary("numpy", valobj)
+
+
+def buffer_info_summary(valobj, _internal_dict):
+    return _summary("buffer_info", valobj)
+
+
+def ndarray_summary(valobj, _internal_dict):
+    return _summary("ndarray", valobj)
+
+
+def eigen_summary(valobj, _internal_dict):
+    return _summary("eigen", valobj)
+
+
+# Type-name regexes per layout; `py::` and `nb::` are namespace aliases, so the
+# debug info carries the full names.
+_TYPES = [
+    ("numpy", "Numpy", r"^pybind11::array(_t<.+>)?$"),
+    ("buffer_info", "BufferInfo", r"^pybind11::buffer_info$"),
+    ("ndarray", "Ndarray", r"^nanobind::ndarray<.*>$"),
+    ("eigen", "Eigen", r"^Eigen::(Matrix|Array)<.+>$"),
+]
+
+
+def __lldb_init_module(debugger, _internal_dict):
+    for layout_key, provider, pattern in _TYPES:
+        debugger.HandleCommand(
+            'type summary add -x "%s" -F %s.%s_summary -w pycpp' % (pattern, _MODULE, layout_key)
+        )
+        debugger.HandleCommand(
+            'type synthetic add -x "%s" -l %s.%sSyntheticProvider -w pycpp' % (pattern, _MODULE, provider)
+        )
+    debugger.HandleCommand("type category enable pycpp")
@@ -0,0 +1,106 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { NATIVE_CHILD_EVENT } from "./pycpp_adapter/proxy_children";
+import { SourceBreakpoint } from "./pycpp_adapter/data_types";
+
+// Launch settings a child session inherits from its parent pycpp-debug session.
+const INHERITED_CONFIG_KEYS = [
+    "pythonPath",
+    "debugpyAdapterPath",
+    "lldbAdapterPath",
+    "pythonFileExtensions",
+    "cppFileExtensions",
+    "lldbAttachToPythonProcess",
+    "lldbFormatters",
+    "lldbFormatterScripts",
+    "startupTimingLogs",
+    "sourceMap",
+    "pathMappings",
+    "unifiedCallStack",
+    "crossLanguageStepping",
+    "linkNativeExceptions",
+] as const;
+
+// Start child pycpp-debug sessions for subprocesses of the debuggee.
+// - debugpy announces each Python subprocess (multiprocessing workers,
+//   subprocess.Popen([sys.executable, ...])) with a "debugpyAttach" event whose
+//   body is an attach configuration for its adapter server. Each child gets its
+//   own proxy, so LLDB attaches to the child PID and the C++ breakpoints VS Code
+//   sends to the new session are cached and replayed once LLDB is attached.
+// - With followNativeChildren, the proxy reports matching native executables with
+//   a "pycppNativeChild" event; those children get an LLDB-only session.
+export function registerChildSessionHandlers(): vscode.Disposable {
+    return vscode.debug.onDidReceiveDebugSessionCustomEvent((event) => {
+        if (event.session.type !== "pycpp-debug") {
+            return;
+        }
+        if (event.event === "debugpyAttach") {
+            void startPythonChildSession(event.session, event.body as Record<string, unknown>);
+        } else if (event.event === NATIVE_CHILD_EVENT) {
+            void startNativeChildSession(event.session, event.body as NativeChildEventBody);
+        }
+    });
+}
+
+type NativeChildEventBody = {
+    pid: number;
+    executable: string;
+    cppBreakpoints: Array<{ path: string; breakpoints: SourceBreakpoint[] }>;
+};
+
+async function startPythonChildSession(
+    parent: vscode.DebugSession,
+    attachConfig: Record<string, unknown>,
+): Promise<void> {
+    const childConfig: vscode.DebugConfiguration = {
+        ...inheritParentConfig(parent.configuration),
+        ...attachConfig,
+        type: "pycpp-debug",
+        request: "attach",
+        name: typeof attachConfig.name === "string"
+            ? attachConfig.name
+            : `Subprocess ${String(attachConfig.subProcessId ?? "")}`.trim(),
+    };
+    const started = await vscode.debug.startDebugging(parent.workspaceFolder, childConfig, {
+        parentSession: parent,
+        lifecycleManagedByParent: true,
+    });
+    if (!started) {
+        void vscode.window.showErrorMessage(
+            `PYCPP: failed to start a debug session for subprocess ${String(attachConfig.subProcessId ?? "")}.`,
+        );
+    }
+}
+
+async function startNativeChildSession(
+    parent: vscode.DebugSession,
+    body: NativeChildEventBody,
+): Promise<void> {
+    const childConfig: vscode.DebugConfiguration = {
+        ...inheritParentConfig(parent.configuration),
+        type: "pycpp-debug",
+        request: "attach",
+        name: `${path.basename(body.executable)} (${body.pid})`,
+        nativeProcessId: body.pid,
+        cppBreakpoints: body.cppBreakpoints,
+    };
+    const started = await vscode.debug.startDebugging(parent.workspaceFolder, childConfig, {
+        parentSession: parent,
+        lifecycleManagedByParent: true,
+    });
+    if (!started) {
+        void vscode.window.showErrorMessage(
+            `PYCPP: failed to start a native debug session for ${body.executable} (pid ${body.pid}).`,
+        );
+    }
+}
+
+function inheritParentConfig(parentConfig: vscode.DebugConfiguration): Record<string, unknown> {
+    const inherited: Record<string, unknown> = {};
+    for (const key of INHERITED_CONFIG_KEYS) {
+        if (parentConfig[key] !== undefined) {
+            inherited[key] = parentConfig[key];
+        }
+    }
+    return inherited;
+}
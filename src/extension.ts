@@ -1,18 +1,27 @@
 import * as vscode from "vscode";
+import { registerChildSessionHandlers } from "./child_sessions";
 import { PycppDebugAdapterDescriptorFactory as PycppDebugAdapterDescriptorFactory } from "./pycpp_adapter/adapter";
 import { PycppDebugConfigurationProvider as PycppDebugConfigurationProvider } from "./pycpp_provider";
+import { PICK_PYTHON_PROCESS_COMMAND, pickPythonProcess } from "./process_picker";
+import { PycppPytestController } from "./pytest_testing";
 
 export function activate(context: vscode.ExtensionContext): void {
 	// This runs when the extension is activated by VS Code.
 	// We register:
 	// 1) a debug configuration provider (fills defaults and validates config)
 	// 2) a debug adapter factory (our DAP bridge between VS Code and debugpy/LLDB)
+	// 3) a process picker command used by attach configurations
+	// 4) a pytest test controller with a "Debug (Python + C++)" run profile
+	// 5) child sessions for subprocesses reported by the debuggee
 	const provider = new PycppDebugConfigurationProvider(context);
 	const descriptorFactory = new PycppDebugAdapterDescriptorFactory();
 	context.subscriptions.push(
 		vscode.debug.registerDebugConfigurationProvider("pycpp-debug", provider),
 		vscode.debug.registerDebugAdapterDescriptorFactory("pycpp-debug", descriptorFactory),
 		descriptorFactory, // add the factory to subscriptions, so that it gets disposed on extension deactivation
+		vscode.commands.registerCommand(PICK_PYTHON_PROCESS_COMMAND, pickPythonProcess),
+		new PycppPytestController(descriptorFactory.output),
+		registerChildSessionHandlers(),
 	);
 }
 
@@ -0,0 +1,114 @@
+import * as childProcess from "child_process";
+import * as path from "path";
+import * as vscode from "vscode";
+
+export const PICK_PYTHON_PROCESS_COMMAND = "pycpp-debug.pickPythonProcess";
+
+type ProcessEntry = {
+    pid: number;
+    name: string;
+    commandLine: string;
+};
+
+// Show a quick pick of local Python processes and return the selected PID.
+// Steps:
+// 1) List local processes using the platform process tool.
+// 2) Keep only processes whose executable looks like a Python interpreter.
+// 3) Return the PID as a string (used by ${command:...} substitution).
+export async function pickPythonProcess(): Promise<string | undefined> {
+    let processes: ProcessEntry[];
+    try {
+        processes = await listProcesses();
+    } catch (error) {
+        void vscode.window.showErrorMessage(
+            `PYCPP: failed to list processes: ${error instanceof Error ? error.message : String(error)}`,
+        );
+        return undefined;
+    }
+
+    const items = processes
+        .filter((entry) => entry.pid !== process.pid && isPythonProcess(entry))
+        .map((entry) => ({
+            label: entry.name,
+            description: String(entry.pid),
+            detail: entry.commandLine,
+            pid: entry.pid,
+        }));
+
+    if (items.length === 0) {
+        void vscode.window.showInformationMessage("PYCPP: no running Python processes found.");
+        return undefined;
+    }
+
+    const selected = await vscode.window.showQuickPick(items, {
+        title: "Attach to Python process",
+        placeHolder: "Select the Python process to debug",
+        matchOnDescription: true,
+        matchOnDetail: true,
+    });
+    return selected ? String(selected.pid) : undefined;
+}
+
+function isPythonProcess(entry: ProcessEntry): boolean {
+    // Match python, python3, python3.12, pythonw.exe, etc.
+    return /^python[\d.]*w?(\.exe)?$/i.test(entry.name);
+}
+
+function listProcesses(): Promise<ProcessEntry[]> {
+    if (process.platform === "win32") {
+        return listWindowsProcesses();
+    }
+    return listPosixProcesses();
+}
+
+function listPosixProcesses(): Promise<ProcessEntry[]> {
+    // `comm` is the executable name; `args` is the full command line.
+    return execFileText("ps", ["-axww", "-o", "pid=,comm=,args="]).then((stdout) => {
+        const entries: ProcessEntry[] = [];
+        for (const line of stdout.split("\n")) {
+            const match = /^\s*(\d+)\s+(\S+)\s+(.*)$/.exec(line);
+            if (!match) {
+                continue;
+            }
+            entries.push({
+                pid: Number(match[1]),
+                name: path.basename(match[2]),
+                commandLine: match[3].trim(),
+            });
+        }
+        return entries;
+    });
+}
+
+function listWindowsProcesses(): Promise<ProcessEntry[]> {
+    const script =
+        "Get-CimInstance Win32_Process | Select-Object ProcessId,Name,CommandLine | ConvertTo-Json -Compress";
+    return execFileText("powershell.exe", ["-NoProfile", "-Command", script]).then((stdout) => {
+        const parsed = JSON.parse(stdout || "[]") as
+            | Array<{ ProcessId: number; Name: string; CommandLine: string | null }>
+            | { ProcessId: number; Name: string; CommandLine: string | null };
+        const rows = Array.isArray(parsed) ? parsed : [parsed];
+        return rows.map((row) => ({
+            pid: row.ProcessId,
+            name: row.Name,
+            commandLine: row.CommandLine ?? row.Name,
+        }));
+    });
+}
+
+function execFileText(command: string, args: string[]): Promise<string> {
+    return new Promise((resolve, reject) => {
+        childProcess.execFile(
+            command,
+            args,
+            { maxBuffer: 16 * 1024 * 1024 },
+            (error, stdout) => {
+                if (error) {
+                    reject(error);
+                    return;
+                }
+                resolve(stdout);
+            },
+        );
+    });
+}
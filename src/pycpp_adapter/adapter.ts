@@ -6,7 +6,7 @@ import { createProxyServer } from "./proxy";
 export class PycppDebugAdapterDescriptorFactory
     implements vscode.DebugAdapterDescriptorFactory, vscode.Disposable {
     // Output channel visible in VS Code's Output panel.
-    private readonly output = vscode.window.createOutputChannel("PYCPP Mixed Debugger");
+    readonly output = vscode.window.createOutputChannel("PYCPP Mixed Debugger");
     private readonly servers = new Set<net.Server>();
 
     async createDebugAdapterDescriptor(
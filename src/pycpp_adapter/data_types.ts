@@ -6,6 +6,17 @@ export type DebugAdapterCommand = {
     label: string;
 };
 
+// A running adapter we speak DAP to: a spawned process (stdio) or a TCP connection.
+export type AdapterEndpoint = {
+    label: string;
+    input: NodeJS.ReadableStream;
+    output: NodeJS.WritableStream;
+    stderr?: NodeJS.ReadableStream;
+    onExit: (listener: (detail: string) => void) => void;
+    isClosed: () => boolean;
+    close: () => void;
+};
+
 // Minimal DAP request shape (fields we use in this adapter).
 export type DapRequest = {
     seq: number;
@@ -35,12 +46,38 @@ export type DapEvent = {
 
 export type DapMessage = DapRequest | DapResponse | DapEvent;
 
-// We split a single setBreakpoints into parts, then merge responses.
+// DAP SourceBreakpoint: everything the user can set on a source line.
+export type SourceBreakpoint = {
+    line: number;
+    column?: number;
+    condition?: string;
+    hitCondition?: string;
+    logMessage?: string;
+};
+
+// DAP FunctionBreakpoint.
+export type FunctionBreakpoint = {
+    name: string;
+    condition?: string;
+    hitCondition?: string;
+};
+
+// DAP ExceptionFilterOptions (a plain filter id is sent as { filterId }).
+export type ExceptionFilterOption = {
+    filterId: string;
+    condition?: string;
+};
+
+// We split a single setBreakpoints/setFunctionBreakpoints/setExceptionBreakpoints into parts, then merge responses.
 export type PendingSetBreakpoints = {
     originalSeq: number;
-    source: Record<string, unknown>;
-    breakpoints: Array<{ line: number }>;
+    command: "setBreakpoints" | "setFunctionBreakpoints" | "setExceptionBreakpoints";
+    // Only for setBreakpoints: the source every result refers to.
+    source?: Record<string, unknown>;
+    breakpoints: Array<SourceBreakpoint | FunctionBreakpoint | ExceptionFilterOption>;
     results: Array<Record<string, unknown> | undefined>;
+    // Per-breakpoint notes from the proxy (options the adapter cannot honor).
+    notes: Array<string | undefined>;
     remaining: number;
     success: boolean;
     message?: string;
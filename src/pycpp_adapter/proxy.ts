@@ -6,10 +6,26 @@ import {
     DEFAULT_PYTHON_FILE_EXTENSIONS,
     normalizeExtensionList,
 } from "../file_extensions";
-import { DapMessage, PendingSetBreakpointsPart } from "./data_types";
+import { DapMessage, PendingSetBreakpointsPart, SourceBreakpoint } from "./data_types";
 import { BreakpointState, DebugpyState, LldbState, SessionState } from "./proxy_types";
 import { BreakpointContext } from "./proxy_breakpoints";
 import { ShutdownManager } from "./proxy_shutdown";
+import { NativeChildWatcher } from "./proxy_children";
+import { PathMapper } from "./proxy_paths";
+import { StackContext, createStackState } from "./proxy_stack";
+import { SteppingContext, createStepState } from "./proxy_stepping";
+import { ThreadContext, createThreadState } from "./proxy_threads";
+import { createIdState } from "./proxy_ids";
+import { PauseContext, createPauseState } from "./proxy_pause";
+import { RunStateContext, createRunState } from "./proxy_run_state";
+import { PyObjectContext, createPyObjectState } from "./proxy_pyobjects";
+import { NativeViewContext, createNativeViewState, withNativeProcessStopped } from "./proxy_native_view";
+import { NativePythonContext, createNativePythonState } from "./proxy_native_python";
+import { ConsoleContext } from "./proxy_console";
+import { CapabilityContext, createCapabilityState } from "./proxy_capabilities";
+import { ExceptionContext } from "./proxy_exceptions";
+import { MemoryContext, createMemoryState } from "./proxy_memory";
+import { createNativeProxySession } from "./proxy_native";
 import {
     createHandlers,
     forwardClientRequestToDebugpy,
@@ -29,6 +45,11 @@ export async function createProxyServer(
     // Accept exactly one connection from VS Code, then hand off to proxy logic.
     const server = net.createServer((socket) => {
         server.close();
+        if (config.nativeProcessId !== undefined) {
+            // Native child sessions (followNativeChildren) only need LLDB.
+            createNativeProxySession(socket, config, output);
+            return;
+        }
         createProxySession(socket, config, output);
     });
 
@@ -58,8 +79,16 @@ function createProxySession(
     output: vscode.OutputChannel,
 ): void {
     // Start both adapters: debugpy for Python and LLDB for C++.
-    const debugpy = utils.spawnDebugpyAdapter(config, output); // process for debugpy
-    const lldb = utils.spawnLldbAdapter(config, output); // process for LLDB (may be undefined)
+    // Attach with "connect" talks to an already-listening debugpy adapter instead.
+    const connect = config.request === "attach" ? parseConnectTarget(config.connect) : undefined;
+    const debugpy = connect
+        ? utils.connectDebugpyAdapter(connect.host, connect.port, output)
+        : utils.spawnDebugpyAdapter(config, output); // process for debugpy
+    // A remote LLDB adapter (lldbConnect) is used over TCP instead of spawning one.
+    const lldbConnect = parseConnectTarget(config.lldbConnect);
+    const lldb = lldbConnect
+        ? utils.connectLldbAdapter(lldbConnect.host, lldbConnect.port, output)
+        : utils.spawnLldbAdapter(config, output); // process for LLDB (may be undefined)
 
     const pythonFileExtensions = new Set(
         normalizeExtensionList(
@@ -79,6 +108,8 @@ function createProxySession(
         shutdownLldbAck: false,
         shutdownDebugpyExited: false,
         shutdownTerminateDebuggee: true,
+        attachedToRunningProcess: false,
+        remoteDebuggee: Boolean(lldbConnect || config.lldbRemotePlatform),
         clientClosed: false,
         shutdownDebugpyDispatched: false,
         terminatedEventSeen: false,
@@ -96,7 +127,12 @@ function createProxySession(
 
     const breakpointState: BreakpointState = {
         pendingSetBreakpoints: new Map(),
-        jitBreakpointCache: new Map<string, number[]>(),
+        jitBreakpointCache: new Map<string, SourceBreakpoint[]>(),
+        functionBreakpointCache: [],
+        commandBreakpointIds: [],
+        commandBreakpointQueue: Promise.resolve(),
+        dataBreakpointCache: [],
+        instructionBreakpointCache: [],
         entryLineBreakpoints: new Map<string, boolean>(),
     };
 
@@ -117,8 +153,8 @@ function createProxySession(
 
     // Connection to debugpy (Python debugger adapter).
     const debugpyConnection = new utils.DapConnection(
-        debugpy.stdout,
-        debugpy.stdin,
+        debugpy.input,
+        debugpy.output,
         (message) => handlers.handleDebugpyMessage(message),
         (error) => output.appendLine(`debugpy adapter error: ${error.message}`),
     );
@@ -129,31 +165,36 @@ function createProxySession(
         pendingSetBreakpoints: new Map<number, PendingSetBreakpointsPart>(),
         pendingSyntheticConfigDone: new Set<number>(),
         pendingClientRequests: new Map<number, { clientSeq: number; command: string }>(),
+        pendingInternalRequests: new Map(),
     };
 
     const lldbState: LldbState = {
         seq: 1,
+        flavor: lldb && /codelldb/i.test(lldb.label) ? "codelldb" : "lldb-dap",
         available: lldb !== undefined,
         attachRequested: false,
         sessionStarted: false,
         pendingSetBreakpoints: new Map<number, PendingSetBreakpointsPart>(),
         pendingRequests: new Map<number, string>(),
         pendingClientRequests: new Map<number, { clientSeq: number; command: string }>(),
-        pendingRefresh: new Map<number, { sourcePath: string; lines: number[] }>(),
+        pendingRefresh: new Map<number, { sourcePath: string; breakpoints: SourceBreakpoint[] }>(),
+        pendingRefreshEvents: new Set<number>(),
         pendingConfigDone: new Set<number>(),
+        pendingInternalRequests: new Map(),
+        pathMapper: new PathMapper(config.pathMappings, config.sourceMap),
     };
 
     // Connection to LLDB adapter (native debugger).
     if (lldb) {
         lldbState.connection = new utils.DapConnection(
-            lldb.stdout,
-            lldb.stdin,
+            lldb.input,
+            lldb.output,
             (message) => handlers.handleLldbMessage(message),
             (error) => output.appendLine(`lldb adapter error: ${error.message}`),
         );
     }
 
-    debugpy.stderr.on("data", (data) => {
+    debugpy.stderr?.on("data", (data) => {
         output.appendLine(`[debugpy] ${data.toString()}`);
     });
 
@@ -161,7 +202,7 @@ function createProxySession(
         session,
         debugpyState,
         lldbState,
-        lldbProcess: lldb,
+        lldbAdapter: lldb,
         socket,
         output,
         sendToClient,
@@ -169,6 +210,26 @@ function createProxySession(
             forwardClientRequestToDebugpy(request, debugpyState, responseCommand),
     });
 
+    const capabilityState = createCapabilityState();
+    const capabilityContext: CapabilityContext = {
+        session,
+        lldbState,
+        capabilityState,
+        output,
+        sendToClient,
+    };
+
+    const exceptionContext: ExceptionContext = {
+        session,
+        lldbState,
+        breakpointState,
+        capabilityState,
+        exceptionState: {},
+        config,
+        output,
+        sendToClient,
+    };
+
     const breakpointContext: BreakpointContext = {
         session,
         breakpointState,
@@ -176,39 +237,158 @@ function createProxySession(
         lldbState,
         pythonFileExtensions,
         cppFileExtensions,
+        capabilityState,
         sendToClient,
         forwardClientRequestToDebugpy: (request) => forwardClientRequestToDebugpy(request, debugpyState),
         forwardClientRequestToLldb: (request) => forwardClientRequestToLldb(request, lldbState),
     };
 
+    const memoryContext: MemoryContext = {
+        session,
+        debugpyState,
+        lldbState,
+        memoryState: createMemoryState(),
+        sendToClient,
+        forwardClientRequestToLldb: (request) => forwardClientRequestToLldb(request, lldbState),
+        withNativeProcessStopped: (read) => withNativeProcessStopped(nativeViewContext, read),
+    };
+
+    const idState = createIdState();
+    const stackContext: StackContext = {
+        session,
+        lldbState,
+        idState,
+        stackState: createStackState(),
+        config,
+        output,
+        sendToClient,
+    };
+
+    const steppingContext: SteppingContext = {
+        session,
+        debugpyState,
+        lldbState,
+        stepState: createStepState(),
+        config,
+        output,
+        sendToClient,
+        forwardClientRequestToDebugpy: (request, responseCommand) =>
+            forwardClientRequestToDebugpy(request, debugpyState, responseCommand),
+        forwardClientRequestToLldb: (request, responseCommand) =>
+            forwardClientRequestToLldb(request, lldbState, responseCommand),
+    };
+
+    const threadContext: ThreadContext = {
+        session,
+        debugpyState,
+        lldbState,
+        idState,
+        threadState: createThreadState(),
+        sendToClient,
+        forwardClientRequestToDebugpy: (request) => forwardClientRequestToDebugpy(request, debugpyState),
+    };
+
+    const pauseContext: PauseContext = {
+        session,
+        debugpyState,
+        lldbState,
+        idState,
+        pauseState: createPauseState(),
+        output,
+        sendToClient,
+        forwardClientRequestToDebugpy: (request) => forwardClientRequestToDebugpy(request, debugpyState),
+    };
+
+    const runStateContext: RunStateContext = {
+        session,
+        idState,
+        runState: createRunState(),
+        sendToClient,
+    };
+
+    const pyObjectContext: PyObjectContext = {
+        session,
+        lldbState,
+        idState,
+        pyObjectState: createPyObjectState(),
+        output,
+        sendToClient,
+    };
+
+    const nativeViewContext: NativeViewContext = {
+        session,
+        debugpyState,
+        lldbState,
+        idState,
+        memoryState: memoryContext.memoryState,
+        runState: runStateContext.runState,
+        nativeViewState: createNativeViewState(),
+        output,
+        sendToClient,
+    };
+
+    const nativePythonContext: NativePythonContext = {
+        session,
+        lldbState,
+        idState,
+        stackState: stackContext.stackState,
+        nativePythonState: createNativePythonState(),
+        output,
+        sendToClient,
+    };
+
+    const consoleContext: ConsoleContext = {
+        session,
+        debugpyState,
+        lldbState,
+        runState: runStateContext.runState,
+        nativeViewContext,
+        nativePythonContext,
+        sendToClient,
+    };
+
+    const nativeChildWatcher = config.followNativeChildren === true && !session.remoteDebuggee
+        ? new NativeChildWatcher({ session, breakpointState, config, output, sendToClient })
+        : undefined;
+
     // Bind handlers only after contexts and managers are available.
     handlers = createHandlers({
         session,
         debugpyState,
         lldbState,
+        idState,
         breakpointContext,
+        capabilityContext,
+        exceptionContext,
+        memoryContext,
+        stackContext,
+        steppingContext,
+        threadContext,
+        pauseContext,
+        runStateContext,
+        pyObjectContext,
+        nativeViewContext,
+        nativePythonContext,
+        consoleContext,
         shutdownManager,
+        nativeChildWatcher,
         config,
         output,
         sendToClient,
     });
 
-    debugpy.on("exit", (code, signal) => {
-        output.appendLine(
-            `debugpy adapter exited (code=${code ?? "null"}, signal=${signal ?? "null"}).`,
-        );
+    debugpy.onExit((detail) => {
+        output.appendLine(`debugpy adapter exited (${detail}).`);
         shutdownManager.onDebugpyExit();
     });
 
     if (lldb) {
-        lldb.stderr.on("data", (data) => {
+        lldb.stderr?.on("data", (data) => {
             output.appendLine(`[lldb] ${data.toString()}`);
         });
 
-        lldb.on("exit", (code, signal) => {
-            output.appendLine(
-                `lldb adapter exited (code=${code ?? "null"}, signal=${signal ?? "null"}).`,
-            );
+        lldb.onExit((detail) => {
+            output.appendLine(`lldb adapter exited (${detail}).`);
             lldbState.available = false;
         });
     }
@@ -216,22 +396,24 @@ function createProxySession(
     socket.on("close", () => {
         output.appendLine("PYCPP socket closed.");
         session.clientClosed = true;
-        if (!debugpy.killed) {
-            debugpy.kill();
+        nativeChildWatcher?.stop();
+        if (!debugpy.isClosed()) {
+            debugpy.close();
         }
-        if (lldb && !lldb.killed) {
-            lldb.kill();
+        if (lldb && !lldb.isClosed()) {
+            lldb.close();
         }
     });
 
     socket.on("error", (error) => {
         output.appendLine(`PYCPP socket error: ${error.message}`);
         session.clientClosed = true;
-        if (!debugpy.killed) {
-            debugpy.kill();
+        nativeChildWatcher?.stop();
+        if (!debugpy.isClosed()) {
+            debugpy.close();
         }
-        if (lldb && !lldb.killed) {
-            lldb.kill();
+        if (lldb && !lldb.isClosed()) {
+            lldb.close();
         }
     });
 
@@ -246,3 +428,17 @@ function createProxySession(
         client.send(message);
     }
 }
+
+// Read the { host, port } target of an attach "connect" configuration.
+function parseConnectTarget(value: unknown): { host: string; port: number } | undefined {
+    if (!value || typeof value !== "object") {
+        return undefined;
+    }
+    const target = value as { host?: unknown; port?: unknown };
+    const port = Number(target.port);
+    if (!Number.isInteger(port) || port <= 0) {
+        return undefined;
+    }
+    const host = typeof target.host === "string" && target.host ? target.host : "127.0.0.1";
+    return { host, port };
+}
@@ -5,9 +5,18 @@ import {
     DapRequest,
     DapResponse,
     PendingSetBreakpoints,
+    ExceptionFilterOption,
+    FunctionBreakpoint,
     PendingSetBreakpointsPart,
+    SourceBreakpoint,
 } from "./data_types";
-import { BreakpointState, DebugpyState, LldbState, SessionState } from "./proxy_types";
+import {
+    BreakpointState,
+    CapabilityState,
+    DebugpyState,
+    LldbState,
+    SessionState,
+} from "./proxy_types";
 
 export type BreakpointContext = {
     session: SessionState;
@@ -16,6 +25,7 @@ export type BreakpointContext = {
     lldbState: LldbState;
     pythonFileExtensions: Set<string>;
     cppFileExtensions: Set<string>;
+    capabilityState: CapabilityState;
     sendToClient: (message: DapMessage) => void;
     forwardClientRequestToDebugpy: (request: DapRequest) => void;
     forwardClientRequestToLldb: (request: DapRequest) => void;
@@ -37,7 +47,7 @@ export function handleSetBreakpoints(
     const source = args.source as Record<string, unknown> | undefined;
     // Normalize file:// URIs so extension checks match real paths.
     const pathValue = utils.normalizeSourcePath(source?.path as string | undefined);
-    const breakpoints = (args.breakpoints as Array<{ line: number }>) ?? [];
+    const breakpoints = (args.breakpoints as SourceBreakpoint[]) ?? [];
 
     if (!pathValue) {
         // No usable source info; fall back to debugpy.
@@ -61,9 +71,11 @@ export function handleSetBreakpoints(
     const normalizedSource = source ?? {};
     const pending: PendingSetBreakpoints = {
         originalSeq: request.seq,
+        command: "setBreakpoints",
         source: normalizedSource,
         breakpoints,
         results: new Array(breakpoints.length),
+        notes: breakpoints.map((bp) => unsupportedOptionNote(context, bp)),
         remaining: 0,
         success: true,
     };
@@ -71,7 +83,7 @@ export function handleSetBreakpoints(
 
     const lldbBreakpoints = breakpoints.map((bp, index) => ({
         index,
-        originalLine: bp.line,
+        breakpoint: toLldbSourceBreakpoint(context, bp),
     }));
 
     if (!lldbUsable) {
@@ -79,7 +91,8 @@ export function handleSetBreakpoints(
         for (const bp of lldbBreakpoints) {
             pending.results[bp.index] = {
                 verified: false,
-                line: bp.originalLine,
+                line: bp.breakpoint.line,
+                column: bp.breakpoint.column,
                 source: normalizedSource,
                 message: "LLDB adapter unavailable for C++ breakpoint.",
             };
@@ -96,11 +109,12 @@ export function handleSetBreakpoints(
 
     if (!context.lldbState.sessionStarted) {
         // LLDB not attached yet -> cache breakpoints for later refresh.
-        cacheJitBreakpoints(context, pathValue, lldbBreakpoints);
+        cacheJitBreakpoints(context, pathValue, breakpoints);
         for (const bp of lldbBreakpoints) {
             pending.results[bp.index] = {
                 verified: false,
-                line: bp.originalLine,
+                line: bp.breakpoint.line,
+                column: bp.breakpoint.column,
                 source: normalizedSource,
                 message: "LLDB not attached yet; breakpoint pending.",
             };
@@ -110,25 +124,23 @@ export function handleSetBreakpoints(
     }
 
     // Send C++ breakpoints to LLDB using the C++ file path.
-    cacheJitBreakpoints(context, pathValue, lldbBreakpoints);
+    cacheJitBreakpoints(context, pathValue, breakpoints);
     const lldbRequest: DapRequest = {
         seq: context.lldbState.seq++,
         type: "request",
         command: "setBreakpoints",
         arguments: {
             source: {
-                path: pathValue,
+                path: context.lldbState.pathMapper.toAdapter(pathValue),
             },
-            breakpoints: lldbBreakpoints.map((bp) => ({
-                line: bp.originalLine,
-            })),
+            breakpoints: lldbBreakpoints.map((bp) => bp.breakpoint),
         },
     };
 
     context.lldbState.pendingSetBreakpoints.set(lldbRequest.seq, {
         originalSeq: request.seq,
         indices: lldbBreakpoints.map((bp) => bp.index),
-        originalLines: lldbBreakpoints.map((bp) => bp.originalLine),
+        originalLines: lldbBreakpoints.map((bp) => bp.breakpoint.line),
     });
     pending.remaining += 1;
     lldbConn.send(lldbRequest);
@@ -181,7 +193,8 @@ export function handleBreakpointLocations(
 // Steps:
 // 1) Locate the original pending request.
 // 2) Copy adapter results into original indices.
-// 3) Emit merged response when all parts return.
+// 3) Report conditions/hit counts/log messages the adapter rejected.
+// 4) Emit merged response when all parts return.
 export function applySetBreakpointsResponse(
     context: BreakpointContext,
     part: PendingSetBreakpointsPart,
@@ -205,11 +218,28 @@ export function applySetBreakpointsResponse(
     for (let i = 0; i < part.indices.length; i += 1) {
         const originalIndex = part.indices[i];
         const originalLine = part.originalLines[i];
-        const adapterBreakpoint = responseBreakpoints[i] ?? { verified: false };
+        // Adapters may answer setExceptionBreakpoints without per-filter results.
+        const adapterBreakpoint = responseBreakpoints[i] ?? {
+            verified: pending.command === "setExceptionBreakpoints" && message.success,
+        };
+        const requested = pending.breakpoints[originalIndex];
+        // Source breakpoints keep the requested line; function breakpoints have none.
+        const location = requested && "line" in requested
+            ? {
+                line: originalLine,
+                column: adapterBreakpoint.column ?? requested.column,
+                source: pending.source,
+            }
+            : {};
         pending.results[originalIndex] = {
             ...adapterBreakpoint,
-            line: originalLine,
-            source: pending.source,
+            ...location,
+            message: describeRejection(
+                requested,
+                adapterBreakpoint,
+                message.success ? undefined : message.message,
+                pending.notes[originalIndex],
+            ),
         };
     }
 
@@ -219,7 +249,7 @@ export function applySetBreakpointsResponse(
 
 // Refresh cached JIT breakpoints after LLDB attaches.
 // Steps:
-// 1) Iterate cached files and line lists.
+// 1) Iterate cached files and their breakpoints (with conditions and log messages).
 // 2) Re-send setBreakpoints to LLDB and track refresh responses.
 export function refreshLldbBreakpoints(context: BreakpointContext): void {
     // Re-apply cached JIT breakpoints after LLDB attaches.
@@ -227,19 +257,19 @@ export function refreshLldbBreakpoints(context: BreakpointContext): void {
         return;
     }
 
-    for (const [sourcePath, lines] of context.breakpointState.jitBreakpointCache.entries()) {
+    for (const [sourcePath, breakpoints] of context.breakpointState.jitBreakpointCache.entries()) {
         const request: DapRequest = {
             seq: context.lldbState.seq++,
             type: "request",
             command: "setBreakpoints",
             arguments: {
                 source: {
-                    path: sourcePath,
+                    path: context.lldbState.pathMapper.toAdapter(sourcePath),
                 },
-                breakpoints: lines.map((line) => ({ line })),
+                breakpoints: breakpoints.map((bp) => toLldbSourceBreakpoint(context, bp)),
             },
         };
-        context.lldbState.pendingRefresh.set(request.seq, { sourcePath, lines });
+        context.lldbState.pendingRefresh.set(request.seq, { sourcePath, breakpoints });
         context.lldbState.connection.send(request);
     }
 }
@@ -249,7 +279,10 @@ export function refreshLldbBreakpoints(context: BreakpointContext): void {
 // 1) Wait until all adapter parts have responded.
 // 2) Fill missing entries with unverified placeholders.
 // 3) Emit a single response to the client.
-function sendMergedResponse(context: BreakpointContext, pending: PendingSetBreakpoints): void {
+export function sendMergedResponse(
+    context: BreakpointContext,
+    pending: PendingSetBreakpoints,
+): void {
     // Wait until all partial responses arrive, then return one merged result.
     if (pending.remaining > 0) {
         return;
@@ -258,9 +291,10 @@ function sendMergedResponse(context: BreakpointContext, pending: PendingSetBreak
     const body = {
         breakpoints: pending.results.map((bp, index) => {
             if (!bp) {
+                const requested = pending.breakpoints[index];
                 return {
                     verified: false,
-                    line: pending.breakpoints[index].line,
+                    line: "line" in requested ? requested.line : undefined,
                     message: "No response from adapter for breakpoint.",
                 };
             }
@@ -272,7 +306,7 @@ function sendMergedResponse(context: BreakpointContext, pending: PendingSetBreak
         seq: context.session.clientSeq++,
         type: "response",
         request_seq: pending.originalSeq,
-        command: "setBreakpoints",
+        command: pending.command,
         success: pending.success,
         message: pending.message,
         body,
@@ -285,23 +319,82 @@ function sendMergedResponse(context: BreakpointContext, pending: PendingSetBreak
     context.sendToClient(response);
 }
 
-// Cache C++ breakpoint lines so they can be re-applied after LLDB attach.
+// Cache C++ breakpoints so they can be re-applied after LLDB attach.
 // Steps:
-// 1) Replace the per-file cache with the latest lines.
-// 2) Store the de-duplicated list back into the cache.
+// 1) Replace the per-file cache with the latest breakpoints.
+// 2) De-duplicate by line and column (the last one wins, as in VS Code).
 function cacheJitBreakpoints(
     context: BreakpointContext,
     sourcePath: string,
-    breakpoints: Array<{ originalLine: number }>,
+    breakpoints: SourceBreakpoint[],
 ): void {
-    // Keep a de-duplicated list of C++ breakpoint lines per file.
-    const unique = new Set<number>();
+    const unique = new Map<string, SourceBreakpoint>();
     for (const bp of breakpoints) {
-        unique.add(bp.originalLine);
+        unique.set(`${bp.line}:${bp.column ?? ""}`, { ...bp });
     }
     context.breakpointState.jitBreakpointCache.set(sourcePath, Array.from(unique.values()));
 }
 
+// Copy the SourceBreakpoint fields LLDB understands, dropping unsupported ones.
+function toLldbSourceBreakpoint(context: BreakpointContext, bp: SourceBreakpoint): SourceBreakpoint {
+    const result: SourceBreakpoint = { line: bp.line };
+    if (bp.column !== undefined) {
+        result.column = bp.column;
+    }
+    if (bp.condition) {
+        result.condition = bp.condition;
+    }
+    if (bp.hitCondition && !unsupportedOptionNote(context, bp)) {
+        result.hitCondition = bp.hitCondition;
+    }
+    if (bp.logMessage) {
+        result.logMessage = bp.logMessage;
+    }
+    return result;
+}
+
+// lldb-dap only accepts a plain hit count; CodeLLDB also accepts "<n", ">=n", "%n", ...
+function unsupportedOptionNote(
+    context: BreakpointContext,
+    bp: SourceBreakpoint,
+): string | undefined {
+    if (
+        context.lldbState.flavor === "lldb-dap" &&
+        bp.hitCondition &&
+        !/^\s*\d+\s*$/.test(bp.hitCondition)
+    ) {
+        return `Hit condition "${bp.hitCondition}" is not supported by lldb-dap (use a number); ignored.`;
+    }
+    return undefined;
+}
+
+// Explain why a breakpoint with a condition, hit condition or log message was rejected.
+function describeRejection(
+    requested: SourceBreakpoint | FunctionBreakpoint | ExceptionFilterOption | undefined,
+    adapterBreakpoint: Record<string, unknown>,
+    requestError: string | undefined,
+    note: string | undefined,
+): string | undefined {
+    const adapterMessage = adapterBreakpoint.message as string | undefined;
+    if (note) {
+        return adapterMessage ? `${note} ${adapterMessage}` : note;
+    }
+    const options = [
+        requested?.condition ? "condition" : undefined,
+        requested && "hitCondition" in requested && requested.hitCondition ? "hit condition" : undefined,
+        requested && "logMessage" in requested && requested.logMessage ? "log message" : undefined,
+    ].filter((option): option is string => option !== undefined);
+    const reason = adapterMessage ?? requestError;
+    if (options.length === 0 || adapterBreakpoint.verified !== false || !reason) {
+        return adapterMessage;
+    }
+    if (!requestError && !/condition|expression|syntax|parse|invalid|error|log/i.test(reason)) {
+        // Unverified for another reason (e.g. no code at this line yet).
+        return adapterMessage;
+    }
+    return `Breakpoint ${options.join(", ")} rejected: ${reason}`;
+}
+
 // Track line-1 breakpoints for non-C++ sources to detect entry line stops.
 // Steps:
 // 1) Check if any breakpoint is on line 1.
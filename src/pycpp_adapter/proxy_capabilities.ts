@@ -0,0 +1,158 @@
+import * as vscode from "vscode";
+import { DapMessage, DapResponse } from "./data_types";
+import { CapabilityState, LldbState, SessionState } from "./proxy_types";
+
+export type CapabilityContext = {
+    session: SessionState;
+    lldbState: LldbState;
+    capabilityState: CapabilityState;
+    output: vscode.OutputChannel;
+    sendToClient: (message: DapMessage) => void;
+};
+
+// Exception filter ids are namespaced so setExceptionBreakpoints can be split again.
+export const PYTHON_FILTER_PREFIX = "python:";
+export const NATIVE_FILTER_PREFIX = "native:";
+
+// How long the initialize response waits for LLDB before answering with debugpy alone.
+const LLDB_INITIALIZE_TIMEOUT_MS = 5000;
+
+// Capabilities backed by requests the proxy routes to LLDB; either adapter may supply them.
+const LLDB_ROUTED_CAPABILITIES = [
+    "supportsConditionalBreakpoints",
+    "supportsHitConditionalBreakpoints",
+    "supportsLogPoints",
+    "supportsFunctionBreakpoints",
+    "supportsBreakpointLocationsRequest",
+    "supportsExceptionFilterOptions",
+    "supportsExceptionInfoRequest",
+    "supportsDataBreakpoints",
+    "supportsDataBreakpointBytes",
+    "supportsDisassembleRequest",
+    "supportsInstructionBreakpoints",
+    "supportsSteppingGranularity",
+    "supportsReadMemoryRequest",
+    "supportsWriteMemoryRequest",
+];
+
+// LLDB filters for languages that never run inside a Python process.
+const IRRELEVANT_NATIVE_FILTER = /^(objc|swift)_/;
+
+export function createCapabilityState(): CapabilityState {
+    return { lldbInitializeDone: false };
+}
+
+// Hold debugpy's initialize response until LLDB's capabilities are known.
+// Steps:
+// 1) Store the (already client-mapped) response.
+// 2) Answer now if LLDB is done or absent, otherwise wait with a timeout.
+export function handleDebugpyInitializeResponse(
+    context: CapabilityContext,
+    response: DapResponse,
+): void {
+    const { capabilityState, lldbState } = context;
+    capabilityState.debugpyInitializeResponse = response;
+    capabilityState.debugpyCapabilities = response.body ?? {};
+    if (capabilityState.lldbInitializeDone || !lldbState.connection || !lldbState.available) {
+        sendMergedInitializeResponse(context);
+        return;
+    }
+    capabilityState.initializeTimer = setTimeout(() => {
+        context.output.appendLine("[proxy] LLDB initialize timed out; using debugpy capabilities only.");
+        sendMergedInitializeResponse(context);
+    }, LLDB_INITIALIZE_TIMEOUT_MS);
+}
+
+// Record LLDB's capabilities and release a held initialize response.
+export function handleLldbInitializeResponse(
+    context: CapabilityContext,
+    response: DapResponse,
+): void {
+    const { capabilityState } = context;
+    capabilityState.lldbInitializeDone = true;
+    if (response.success) {
+        capabilityState.lldbCapabilities = response.body ?? {};
+    }
+    if (capabilityState.debugpyInitializeResponse) {
+        sendMergedInitializeResponse(context);
+    }
+}
+
+// Whether an adapter advertised a capability in its initialize response.
+export function adapterSupports(
+    context: { capabilityState: CapabilityState },
+    adapter: "debugpy" | "lldb",
+    capability: string,
+): boolean {
+    const capabilities = adapter === "debugpy"
+        ? context.capabilityState.debugpyCapabilities
+        : context.capabilityState.lldbCapabilities;
+    return capabilities?.[capability] === true;
+}
+
+function sendMergedInitializeResponse(context: CapabilityContext): void {
+    const { capabilityState } = context;
+    const response = capabilityState.debugpyInitializeResponse;
+    if (!response) {
+        return;
+    }
+    capabilityState.debugpyInitializeResponse = undefined;
+    if (capabilityState.initializeTimer) {
+        clearTimeout(capabilityState.initializeTimer);
+        capabilityState.initializeTimer = undefined;
+    }
+    context.sendToClient({
+        ...response,
+        body: mergeCapabilities(
+            capabilityState.debugpyCapabilities ?? {},
+            capabilityState.lldbCapabilities,
+        ),
+    });
+}
+
+// Build the Capabilities object VS Code sees.
+// Steps:
+// 1) Start from debugpy's capabilities (Python stops are handled there).
+// 2) Enable capabilities of requests the proxy routes to LLDB if LLDB has them.
+// 3) Combine both exception filter lists under namespaced ids.
+function mergeCapabilities(
+    debugpy: Record<string, unknown>,
+    lldb: Record<string, unknown> | undefined,
+): Record<string, unknown> {
+    const merged: Record<string, unknown> = { ...debugpy };
+    for (const capability of LLDB_ROUTED_CAPABILITIES) {
+        if (lldb?.[capability] === true) {
+            merged[capability] = true;
+        }
+    }
+    merged.exceptionBreakpointFilters = [
+        ...namespaceFilters(debugpy.exceptionBreakpointFilters, PYTHON_FILTER_PREFIX, "Python"),
+        ...namespaceFilters(lldb?.exceptionBreakpointFilters, NATIVE_FILTER_PREFIX, "C++").filter(
+            (filter) => !IRRELEVANT_NATIVE_FILTER.test(String(filter.filter).slice(NATIVE_FILTER_PREFIX.length)),
+        ),
+    ];
+    return merged;
+}
+
+function namespaceFilters(
+    value: unknown,
+    prefix: string,
+    language: string,
+): Array<Record<string, unknown>> {
+    if (!Array.isArray(value)) {
+        return [];
+    }
+    return value
+        .filter((filter): filter is Record<string, unknown> =>
+            Boolean(filter) && typeof filter.filter === "string",
+        )
+        .map((filter) => {
+            const label = String(filter.label ?? filter.filter);
+            return {
+                ...filter,
+                filter: `${prefix}${filter.filter as string}`,
+                // "C++: on throw" already names its language; "Raised Exceptions" does not.
+                label: /^(C\+\+|Rust|Python)\b/.test(label) ? label : `${language}: ${label}`,
+            };
+        });
+}
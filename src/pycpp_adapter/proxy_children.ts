@@ -0,0 +1,196 @@
+import * as childProcess from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { DapEvent, DapMessage } from "./data_types";
+import { BreakpointState, SessionState } from "./proxy_types";
+import { globToRegExp } from "./utils";
+
+export type NativeChildContext = {
+    session: SessionState;
+    breakpointState: BreakpointState;
+    config: vscode.DebugConfiguration;
+    output: vscode.OutputChannel;
+    sendToClient: (message: DapMessage) => void;
+};
+
+// Custom event asking the extension to open a native child session.
+export const NATIVE_CHILD_EVENT = "pycppNativeChild";
+
+const POLL_INTERVAL_MS = 500;
+const PYTHON_EXECUTABLE = /^python[\d.]*w?(\.exe)?$/i;
+
+// Watches the debuggee's process tree for exec'd native children (followNativeChildren).
+// Matching executables are reported to the extension with a custom event, which
+// starts a native-only child session that attaches LLDB to the child PID.
+// Children are found by polling and are never held: one that exits within a poll
+// interval is missed, and code it runs before LLDB attaches does not hit breakpoints.
+export class NativeChildWatcher {
+    private readonly patterns: RegExp[];
+    private readonly reported = new Set<number>();
+    private rootPid?: number;
+    private timer?: NodeJS.Timeout;
+    private polling = false;
+
+    constructor(private readonly context: NativeChildContext) {
+        const cwd = typeof context.config.cwd === "string" ? context.config.cwd : process.cwd();
+        const globs = context.config.nativeChildExecutables;
+        const globList: string[] = Array.isArray(globs)
+            ? globs.filter((glob): glob is string => typeof glob === "string")
+            : typeof globs === "string"
+                ? [globs]
+                : [path.join(cwd, "**")];
+        this.patterns = globList.map((glob) =>
+            globToRegExp(path.isAbsolute(glob) ? glob : path.join(cwd, glob)),
+        );
+    }
+
+    // Start polling the descendants of the Python process.
+    // Steps:
+    // 1) Remember the root PID (first call wins).
+    // 2) Poll the process table on an interval until stopped.
+    start(rootPid: number): void {
+        if (this.rootPid !== undefined || process.platform === "win32") {
+            return;
+        }
+        this.rootPid = rootPid;
+        this.context.output.appendLine(
+            `[proxy] following native children of pid ${rootPid}.`,
+        );
+        this.timer = setInterval(() => void this.poll(), POLL_INTERVAL_MS);
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    // Report new descendants whose executable matches the configured globs.
+    // Steps:
+    // 1) Read the process table and collect descendants of the root PID.
+    // 2) Resolve each unreported descendant's executable path.
+    // 3) Emit a custom event for every match.
+    private async poll(): Promise<void> {
+        if (this.polling || this.rootPid === undefined) {
+            return;
+        }
+        if (this.context.session.shutdownRequested || this.context.session.clientClosed) {
+            this.stop();
+            return;
+        }
+        this.polling = true;
+        try {
+            const table = await readProcessTable();
+            for (const pid of this.reported) {
+                // Exited children; their PIDs may be reused.
+                if (!table.has(pid)) {
+                    this.reported.delete(pid);
+                }
+            }
+            for (const pid of collectDescendants(table, this.rootPid)) {
+                if (this.reported.has(pid)) {
+                    continue;
+                }
+                // Re-checked on every poll: a forked child may exec the matching binary later.
+                const executable = await resolveExecutable(pid, table.get(pid)?.command);
+                if (
+                    !executable ||
+                    PYTHON_EXECUTABLE.test(path.basename(executable)) ||
+                    !this.patterns.some((pattern) => pattern.test(executable))
+                ) {
+                    // Python children are followed by debugpy (see child sessions), not here.
+                    continue;
+                }
+                this.reported.add(pid);
+                this.reportChild(pid, executable);
+            }
+        } catch (error) {
+            this.context.output.appendLine(
+                `[proxy] native child scan failed: ${error instanceof Error ? error.message : String(error)}`,
+            );
+        } finally {
+            this.polling = false;
+        }
+    }
+
+    private reportChild(pid: number, executable: string): void {
+        const { session, breakpointState, output } = this.context;
+        output.appendLine(`[proxy] native child ${executable} (pid ${pid}) matched; requesting session.`);
+        const event: DapEvent = {
+            seq: session.clientSeq++,
+            type: "event",
+            event: NATIVE_CHILD_EVENT,
+            body: {
+                pid,
+                executable,
+                cppBreakpoints: Array.from(breakpointState.jitBreakpointCache.entries()).map(
+                    ([sourcePath, breakpoints]) => ({ path: sourcePath, breakpoints }),
+                ),
+            },
+        };
+        this.context.sendToClient(event);
+    }
+}
+
+type ProcessTableEntry = { ppid: number; command: string };
+
+function readProcessTable(): Promise<Map<number, ProcessTableEntry>> {
+    return new Promise((resolve, reject) => {
+        childProcess.execFile(
+            "ps",
+            ["-axww", "-o", "pid=,ppid=,comm="],
+            { maxBuffer: 16 * 1024 * 1024 },
+            (error, stdout) => {
+                if (error) {
+                    reject(error);
+                    return;
+                }
+                const table = new Map<number, ProcessTableEntry>();
+                for (const line of stdout.split("\n")) {
+                    const match = /^\s*(\d+)\s+(\d+)\s+(.*)$/.exec(line);
+                    if (match) {
+                        table.set(Number(match[1]), {
+                            ppid: Number(match[2]),
+                            command: match[3].trim(),
+                        });
+                    }
+                }
+                resolve(table);
+            },
+        );
+    });
+}
+
+function collectDescendants(table: Map<number, ProcessTableEntry>, rootPid: number): number[] {
+    const children = new Map<number, number[]>();
+    for (const [pid, entry] of table) {
+        const siblings = children.get(entry.ppid) ?? [];
+        siblings.push(pid);
+        children.set(entry.ppid, siblings);
+    }
+    const descendants: number[] = [];
+    const queue = [...(children.get(rootPid) ?? [])];
+    while (queue.length > 0) {
+        const pid = queue.shift() as number;
+        descendants.push(pid);
+        queue.push(...(children.get(pid) ?? []));
+    }
+    return descendants;
+}
+
+async function resolveExecutable(
+    pid: number,
+    command: string | undefined,
+): Promise<string | undefined> {
+    // Linux truncates `comm`; /proc/<pid>/exe has the full path. macOS `comm` is already a path.
+    if (process.platform === "linux") {
+        try {
+            return await fs.promises.readlink(`/proc/${pid}/exe`);
+        } catch {
+            return command;
+        }
+    }
+    return command;
+}
@@ -0,0 +1,176 @@
+import { DapMessage, DapRequest, DapResponse } from "./data_types";
+import { AdapterName, DebugpyState, LldbState, RunState, SessionState } from "./proxy_types";
+import { requestFromDebugpy } from "./proxy_debugpy";
+import { requestFromLldb } from "./proxy_lldb";
+import { isLldbReady } from "./proxy_native_breakpoints";
+import { NativeViewContext, evaluateInNativeView } from "./proxy_native_view";
+import { NativePythonContext, evaluatePythonInNativeStop } from "./proxy_native_python";
+
+export type ConsoleContext = {
+    session: SessionState;
+    debugpyState: DebugpyState;
+    lldbState: LldbState;
+    runState: RunState;
+    nativeViewContext: NativeViewContext;
+    nativePythonContext: NativePythonContext;
+    sendToClient: (message: DapMessage) => void;
+};
+
+// A client request with the adapter that owns its ids (see translateToAdapter).
+export type ConsoleRoute = { request: DapRequest; owner?: AdapterName };
+
+type ConsoleTarget = "py" | "cpp" | "lldb";
+type ConsoleInput = { target: ConsoleTarget; text: string; prefixLength: number };
+
+// "py:", "cpp:" or "lldb:" at the start of console, watch or completions input.
+// "cpp::x" is a C++ scope, not a prefix.
+const CONSOLE_PREFIX = /^\s*(py|cpp|lldb):(?!:)\s*/;
+
+// Send prefixed evaluate/completions input to the debugger it names.
+// Steps:
+// 1) Strip the prefix and mark the input for the adapter: a native expression for
+//    cpp:, a command for lldb: (CodeLLDB "/nat" and "/cmd", lldb-dap "`").
+// 2) Keep the frame only when it belongs to the target adapter.
+// 3) Target stopped: route the rewritten request as usual. Python stopped with
+//    LLDB running: answer cpp:/lldb: input through a brief native stop. LLDB
+//    stopped: run py: input through LLDB in the selected frame's thread.
+// 4) Otherwise answer with an error saying why the target cannot evaluate.
+// Returns undefined when the request was answered here.
+export function routeConsoleInput(context: ConsoleContext, route: ConsoleRoute): ConsoleRoute | undefined {
+    const { request } = route;
+    const key = request.command === "evaluate" ? "expression" : request.command === "completions" ? "text" : undefined;
+    const input = key ? parseConsoleInput(request.arguments?.[key]) : undefined;
+    if (!input) {
+        return route;
+    }
+    const adapter: AdapterName = input.target === "py" ? "debugpy" : "lldb";
+    const args: Record<string, unknown> = { ...request.arguments };
+    if (route.owner !== adapter) {
+        delete args.frameId;
+    }
+    if (request.command === "completions") {
+        void completePrefixedInput(context, request, args, input).then((targets) =>
+            respond(context, request, true, { targets }),
+        );
+        return undefined;
+    }
+
+    args.expression = adapterInput(context.lldbState, input);
+    if (input.target === "cpp" && args.context === "repl") {
+        // lldb-dap treats repl input that starts with a command name as a command.
+        args.context = "watch";
+    } else if (input.target === "lldb") {
+        args.context = "repl";
+    }
+    if (canEvaluate(context, adapter)) {
+        return { request: { ...request, arguments: args }, owner: adapter };
+    }
+    if (adapter === "lldb" && isLldbReady(context) && context.runState.debugpy.state === "stopped") {
+        void evaluateInNativeView(context.nativeViewContext, input.text, input.target === "lldb").then(
+            (body) => respond(context, request, true, body),
+            (error: Error) => respond(context, request, false, undefined, error.message),
+        );
+        return undefined;
+    }
+    if (adapter === "debugpy" && context.runState.lldb.state === "stopped") {
+        const frameId = request.arguments?.frameId as number | undefined;
+        void evaluatePythonInNativeStop(context.nativePythonContext, input.text, frameId, route.owner).then(
+            (body) => respond(context, request, true, body),
+            (error: Error) => respond(context, request, false, undefined, error.message),
+        );
+        return undefined;
+    }
+    respond(context, request, false, undefined, unavailableMessage(context, input.target));
+    return undefined;
+}
+
+function parseConsoleInput(value: unknown): ConsoleInput | undefined {
+    const text = typeof value === "string" ? value : "";
+    const match = CONSOLE_PREFIX.exec(text);
+    if (!match) {
+        return undefined;
+    }
+    return {
+        target: match[1] as ConsoleTarget,
+        text: text.slice(match[0].length),
+        prefixLength: match[0].length,
+    };
+}
+
+// The input as the adapter expects it.
+function adapterInput(lldbState: LldbState, input: ConsoleInput): string {
+    if (input.target === "cpp") {
+        return lldbState.flavor === "codelldb" ? `/nat ${input.text}` : input.text;
+    }
+    if (input.target === "lldb") {
+        return lldbState.flavor === "codelldb" ? `/cmd ${input.text}` : `\`${input.text}`;
+    }
+    return input.text;
+}
+
+// debugpy answers only while Python is stopped and LLDB is not (an LLDB stop
+// freezes debugpy too); LLDB answers while it holds the process stopped.
+function canEvaluate(context: ConsoleContext, adapter: AdapterName): boolean {
+    const { runState } = context;
+    return adapter === "debugpy"
+        ? runState.debugpy.state === "stopped" && runState.lldb.state !== "stopped"
+        : runState.lldb.state === "stopped";
+}
+
+function unavailableMessage(context: ConsoleContext, target: ConsoleTarget): string {
+    if (target === "py") {
+        return "Python expressions need the program to be stopped.";
+    }
+    return isLldbReady(context)
+        ? "C/C++ expressions and LLDB commands need the program to be stopped."
+        : "LLDB is not attached; cpp: and lldb: input is unavailable.";
+}
+
+// Completions for prefixed input, with positions mapped back to the typed text.
+async function completePrefixedInput(
+    context: ConsoleContext,
+    request: DapRequest,
+    args: Record<string, unknown>,
+    input: ConsoleInput,
+): Promise<Array<Record<string, unknown>>> {
+    const column = Number(args.column);
+    const adapter: AdapterName = input.target === "py" ? "debugpy" : "lldb";
+    if (!Number.isFinite(column) || column < input.prefixLength) {
+        return [];
+    }
+    if (adapter === "debugpy" ? !canEvaluate(context, adapter) : !isLldbReady(context)) {
+        return [];
+    }
+    const text = adapterInput(context.lldbState, input);
+    // Typed text -> adapter text: the prefix is replaced by the adapter's escape.
+    const shift = input.prefixLength - (text.length - input.text.length);
+    const completionArgs = { ...args, text, column: column - shift };
+    const response = adapter === "debugpy"
+        ? await requestFromDebugpy(context.debugpyState, request.command, completionArgs)
+        : await requestFromLldb(context.lldbState, request.command, completionArgs);
+    const targets = response.success
+        ? ((response.body?.targets as Array<Record<string, unknown>> | undefined) ?? [])
+        : [];
+    return targets.map((target) =>
+        typeof target.start === "number" ? { ...target, start: target.start + shift } : target,
+    );
+}
+
+function respond(
+    context: ConsoleContext,
+    request: DapRequest,
+    success: boolean,
+    body?: Record<string, unknown>,
+    message?: string,
+): void {
+    const response: DapResponse = {
+        seq: context.session.clientSeq++,
+        type: "response",
+        request_seq: request.seq,
+        command: request.command,
+        success,
+        message,
+        body,
+    };
+    context.sendToClient(response);
+}
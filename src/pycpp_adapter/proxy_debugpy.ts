@@ -0,0 +1,68 @@
+import { DapRequest, DapResponse } from "./data_types";
+import { DebugpyState } from "./proxy_types";
+
+// Send a proxy-originated request to debugpy and resolve with its response.
+// Steps:
+// 1) Re-sequence in debugpy's space and register a resolver.
+// 2) Send the request; handleDebugpyMessage resolves it.
+export function requestFromDebugpy(
+    debugpyState: DebugpyState,
+    command: string,
+    args?: Record<string, unknown>,
+): Promise<DapResponse> {
+    const request: DapRequest = {
+        seq: debugpyState.seq++,
+        type: "request",
+        command,
+        arguments: args,
+    };
+    return new Promise((resolve) => {
+        debugpyState.pendingInternalRequests.set(request.seq, resolve);
+        debugpyState.connection.send(request);
+    });
+}
+
+// Evaluate a Python expression in a debugpy frame and return its repr text.
+export async function evaluatePython(
+    debugpyState: DebugpyState,
+    frameId: number,
+    expression: string,
+): Promise<{ result?: string; error?: string }> {
+    const response = await requestFromDebugpy(debugpyState, "evaluate", {
+        expression,
+        frameId,
+        context: "watch",
+    });
+    if (!response.success) {
+        return { error: response.message ?? "evaluation failed" };
+    }
+    return { result: response.body?.result as string | undefined };
+}
+
+// Decode a Python str repr ('text' or "text") as returned by debugpy's evaluate.
+export function parsePythonStr(result: string | undefined): string | undefined {
+    if (!result || result.length < 2) {
+        return undefined;
+    }
+    const quote = result[0];
+    if ((quote !== "'" && quote !== "\"") || result[result.length - 1] !== quote) {
+        return undefined;
+    }
+    return result
+        .slice(1, -1)
+        .replace(/\\(x[0-9a-fA-F]{2}|u[0-9a-fA-F]{4}|.)/g, (_match, escape: string) => {
+            switch (escape[0]) {
+                case "n":
+                    return "\n";
+                case "t":
+                    return "\t";
+                case "r":
+                    return "\r";
+                case "x":
+                case "u":
+                    return String.fromCharCode(parseInt(escape.slice(1), 16));
+                default:
+                    return escape;
+            }
+        });
+}
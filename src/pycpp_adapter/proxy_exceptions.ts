@@ -0,0 +1,418 @@
+import * as vscode from "vscode";
+import {
+    DapEvent,
+    DapMessage,
+    DapRequest,
+    DapResponse,
+    ExceptionFilterOption,
+    PendingSetBreakpoints,
+} from "./data_types";
+import { BreakpointContext, sendMergedResponse } from "./proxy_breakpoints";
+import { NATIVE_FILTER_PREFIX, PYTHON_FILTER_PREFIX, adapterSupports } from "./proxy_capabilities";
+import { evaluateNative, parseCString, requestFromLldb, runLldbCommand } from "./proxy_lldb";
+import {
+    BreakpointState,
+    CapabilityState,
+    ExceptionFilterSelection,
+    ExceptionState,
+    LldbState,
+    NativeThrowSite,
+    SessionState,
+} from "./proxy_types";
+
+export type ExceptionContext = {
+    session: SessionState;
+    lldbState: LldbState;
+    breakpointState: BreakpointState;
+    capabilityState: CapabilityState;
+    exceptionState: ExceptionState;
+    config: vscode.DebugConfiguration;
+    output: vscode.OutputChannel;
+    sendToClient: (message: DapMessage) => void;
+};
+
+// C++ runtime entry points every throw goes through (Itanium ABI, MSVC).
+const THROW_FUNCTIONS = ["__cxa_throw", "_CxxThrowException"];
+// Throw and unwind machinery skipped when looking for the throw site.
+const THROW_MACHINERY_PATTERN = /^(__cxa_|_CxxThrowException|_Unwind_|__gxx_|std::__|__cxx)/;
+// Native frames kept for a recorded throw site.
+const MAX_THROW_FRAMES = 16;
+
+type FilterPart = {
+    // Positions in the combined filters + filterOptions list.
+    indices: number[];
+    selection: ExceptionFilterSelection;
+};
+
+// Handle setExceptionBreakpoints by giving each adapter only its own filters.
+// Steps:
+// 1) Split filters and filterOptions by namespace (unprefixed ids stay with debugpy).
+// 2) Send debugpy its filters; send (or cache until attach) LLDB's filters.
+// 3) Merge per-filter results back into the original order.
+export function handleSetExceptionBreakpoints(
+    context: BreakpointContext,
+    request: DapRequest,
+): void {
+    const args = request.arguments ?? {};
+    const filters = (args.filters as string[] | undefined) ?? [];
+    const filterOptions = (args.filterOptions as ExceptionFilterOption[] | undefined) ?? [];
+    // DAP reports results in the order of filters, then filterOptions.
+    const entries: ExceptionFilterOption[] = [
+        ...filters.map((filterId) => ({ filterId })),
+        ...filterOptions,
+    ];
+    const pending: PendingSetBreakpoints = {
+        originalSeq: request.seq,
+        command: "setExceptionBreakpoints",
+        breakpoints: entries,
+        results: new Array(entries.length),
+        notes: new Array(entries.length).fill(undefined),
+        remaining: 0,
+        success: true,
+    };
+    context.breakpointState.pendingSetBreakpoints.set(request.seq, pending);
+
+    const pythonPart = selectFilters(entries, filters.length, PYTHON_FILTER_PREFIX, true);
+    const nativePart = selectFilters(entries, filters.length, NATIVE_FILTER_PREFIX, false);
+
+    const debugpyRequest: DapRequest = {
+        seq: context.debugpyState.seq++,
+        type: "request",
+        command: "setExceptionBreakpoints",
+        arguments: {
+            ...toAdapterArguments(context, "debugpy", pythonPart.selection),
+            // exceptionOptions name Python exception types; LLDB has no use for them.
+            ...(args.exceptionOptions ? { exceptionOptions: args.exceptionOptions } : {}),
+        },
+    };
+    context.debugpyState.pendingSetBreakpoints.set(debugpyRequest.seq, {
+        originalSeq: request.seq,
+        indices: pythonPart.indices,
+        originalLines: [],
+    });
+    pending.remaining += 1;
+    context.debugpyState.connection.send(debugpyRequest);
+
+    context.breakpointState.exceptionFilterCache = nativePart.selection;
+    const lldbConnection = context.lldbState.connection;
+    if (!lldbConnection || !context.lldbState.available || !context.lldbState.sessionStarted) {
+        for (const index of nativePart.indices) {
+            // Cached filters are applied as part of the LLDB attach, before code runs;
+            // they stay unverified until LLDB accepts them.
+            pending.results[index] = {
+                verified: false,
+                message: context.lldbState.available
+                    ? "LLDB not attached yet; exception filter pending."
+                    : "LLDB adapter unavailable for C++ exception filter.",
+            };
+        }
+        sendMergedResponse(context, pending);
+        return;
+    }
+
+    const lldbRequest: DapRequest = {
+        seq: context.lldbState.seq++,
+        type: "request",
+        command: "setExceptionBreakpoints",
+        arguments: toAdapterArguments(context, "lldb", nativePart.selection),
+    };
+    context.lldbState.pendingSetBreakpoints.set(lldbRequest.seq, {
+        originalSeq: request.seq,
+        indices: nativePart.indices,
+        originalLines: [],
+    });
+    pending.remaining += 1;
+    lldbConnection.send(lldbRequest);
+}
+
+// Re-apply cached native exception filters after LLDB attaches; LLDB's results
+// are announced to VS Code as "changed" events.
+export function refreshLldbExceptionBreakpoints(context: BreakpointContext): void {
+    const cached = context.breakpointState.exceptionFilterCache;
+    const connection = context.lldbState.connection;
+    if (
+        !connection ||
+        !cached ||
+        (cached.filters.length === 0 && cached.filterOptions.length === 0)
+    ) {
+        return;
+    }
+    const request: DapRequest = {
+        seq: context.lldbState.seq++,
+        type: "request",
+        command: "setExceptionBreakpoints",
+        arguments: toAdapterArguments(context, "lldb", cached),
+    };
+    context.lldbState.pendingRefreshEvents.add(request.seq);
+    connection.send(request);
+}
+
+// Pick the entries of one namespace and strip the prefix.
+function selectFilters(
+    entries: ExceptionFilterOption[],
+    filterCount: number,
+    prefix: string,
+    claimUnprefixed: boolean,
+): FilterPart {
+    const part: FilterPart = { indices: [], selection: { filters: [], filterOptions: [] } };
+    entries.forEach((entry, index) => {
+        const namespaced = entry.filterId.startsWith(PYTHON_FILTER_PREFIX) ||
+            entry.filterId.startsWith(NATIVE_FILTER_PREFIX);
+        if (!entry.filterId.startsWith(prefix) && (namespaced || !claimUnprefixed)) {
+            return;
+        }
+        const filterId = entry.filterId.startsWith(prefix)
+            ? entry.filterId.slice(prefix.length)
+            : entry.filterId;
+        part.indices.push(index);
+        if (index < filterCount) {
+            part.selection.filters.push(filterId);
+        } else {
+            part.selection.filterOptions.push({ ...entry, filterId });
+        }
+    });
+    return part;
+}
+
+// Adapters without filterOptions support get plain filter ids (conditions dropped).
+function toAdapterArguments(
+    context: BreakpointContext,
+    adapter: "debugpy" | "lldb",
+    selection: ExceptionFilterSelection,
+): Record<string, unknown> {
+    if (adapterSupports(context, adapter, "supportsExceptionFilterOptions")) {
+        return { filters: selection.filters, filterOptions: selection.filterOptions };
+    }
+    return {
+        filters: [
+            ...selection.filters,
+            ...selection.filterOptions.map((option) => option.filterId),
+        ],
+    };
+}
+
+// Install the breakpoint that records C++ throw sites (linkNativeExceptions).
+// Steps:
+// 1) Break on the C++ runtime's throw entry points.
+// 2) Remember the id so these stops can be recognized and resumed silently.
+export async function installThrowRecorder(context: ExceptionContext): Promise<void> {
+    // Opt-in: every throw, caught or not, costs a stop and a round trip.
+    if (context.config.linkNativeExceptions !== true || context.exceptionState.throwBreakpointId) {
+        return;
+    }
+    const names = THROW_FUNCTIONS.map((name) => `--name ${name}`).join(" ");
+    const created = await runLldbCommand(context.lldbState, undefined, `breakpoint set ${names}`);
+    const id = Number(/Breakpoint (\d+):/.exec(created.result ?? "")?.[1]);
+    if (!Number.isInteger(id)) {
+        context.output.appendLine(
+            `[proxy] C++ throw sites not recorded: ${created.error ?? created.result ?? "no breakpoint"}`,
+        );
+        return;
+    }
+    context.exceptionState.throwBreakpointId = id;
+}
+
+// Whether an LLDB stop hit the throw recorder's breakpoint (decided by handleThrowRecorderStop).
+// Other stops stay on the synchronous path, in order with later events.
+export function isThrowRecorderCandidate(context: ExceptionContext, event: DapEvent): boolean {
+    const id = context.exceptionState.throwBreakpointId;
+    const hitIds = event.body?.hitBreakpointIds as number[] | undefined;
+    return id !== undefined && Array.isArray(hitIds) && hitIds.includes(id);
+}
+
+// Record a C++ throw site and resume unless the user asked to stop on throw.
+// Steps:
+// 1) Confirm the thread is in the throw entry point.
+// 2) Record the thrown type and the frames from the throw site outwards.
+// 3) Resume silently (returns true) or let the stop through (returns false).
+export async function handleThrowRecorderStop(
+    context: ExceptionContext,
+    event: DapEvent,
+): Promise<boolean> {
+    const threadId = event.body?.threadId as number | undefined;
+    if (threadId === undefined) {
+        return false;
+    }
+    const stack = await requestFromLldb(context.lldbState, "stackTrace", {
+        threadId,
+        startFrame: 0,
+        levels: MAX_THROW_FRAMES,
+    });
+    const frames = (stack.body?.stackFrames as Array<Record<string, unknown>> | undefined) ?? [];
+    const top = frames[0];
+    if (!stack.success || !top || !THROW_FUNCTIONS.some((name) => frameName(top).includes(name))) {
+        return false;
+    }
+
+    context.exceptionState.lastThrow = {
+        typeName: frameName(top).includes("__cxa_throw")
+            ? await readThrownTypeName(context, top.id as number)
+            : undefined,
+        frames: frames
+            .filter((frame) => !THROW_MACHINERY_PATTERN.test(frameName(frame)))
+            .map((frame) => ({
+                name: frameName(frame),
+                path: (frame.source as { path?: string } | undefined)?.path,
+                line: frame.line as number | undefined,
+            })),
+    };
+
+    const userHitIds = ((event.body?.hitBreakpointIds as number[] | undefined) ?? []).filter(
+        (id) => id !== context.exceptionState.throwBreakpointId,
+    );
+    const stopOnThrow = context.breakpointState.exceptionFilterCache?.filters.includes("cpp_throw") ||
+        context.breakpointState.exceptionFilterCache?.filterOptions.some(
+            (option) => option.filterId === "cpp_throw",
+        );
+    if (stopOnThrow || userHitIds.length > 0) {
+        return false;
+    }
+    void requestFromLldb(context.lldbState, "continue", { threadId });
+    return true;
+}
+
+// Remember how a native stop was described (exceptionInfo fallback).
+export function onNativeStop(context: ExceptionContext, event: DapEvent): void {
+    context.exceptionState.lastNativeStop = {
+        description: event.body?.description as string | undefined,
+        text: event.body?.text as string | undefined,
+    };
+    context.exceptionState.lastThrow = undefined;
+}
+
+// Link a Python exception stop to the C++ throw recorded since Python last stopped.
+// Steps:
+// 1) Only exception stops consume the recorded throw; every Python stop clears it.
+// 2) Print the throw site to the Debug Console (paths are clickable there).
+export function onPythonStop(context: ExceptionContext, event: DapEvent): void {
+    const { exceptionState } = context;
+    const recorded = exceptionState.lastThrow;
+    exceptionState.lastThrow = undefined;
+    exceptionState.linkedThrow = event.body?.reason === "exception" ? recorded : undefined;
+    if (!exceptionState.linkedThrow) {
+        return;
+    }
+    const output: DapEvent = {
+        seq: context.session.clientSeq++,
+        type: "event",
+        event: "output",
+        body: {
+            category: "console",
+            output: `${describeThrowSite(exceptionState.linkedThrow)}\n${formatThrowFrames(exceptionState.linkedThrow)}\n`,
+        },
+    };
+    context.sendToClient(output);
+}
+
+// The linked throw site belongs to one stop only.
+export function onResume(context: ExceptionContext): void {
+    context.exceptionState.linkedThrow = undefined;
+}
+
+// Add the linked C++ throw site to debugpy's exceptionInfo response.
+export function augmentExceptionInfo(context: ExceptionContext, response: DapResponse): DapResponse {
+    const linked = context.exceptionState.linkedThrow;
+    if (!linked || !response.success || !response.body) {
+        return response;
+    }
+    const details = (response.body.details as Record<string, unknown> | undefined) ?? {};
+    return {
+        ...response,
+        body: {
+            ...response.body,
+            description: [response.body.description, describeThrowSite(linked)]
+                .filter((part) => typeof part === "string" && part)
+                .join("\n"),
+            details: {
+                ...details,
+                innerException: [
+                    {
+                        typeName: linked.typeName ?? "C++ exception",
+                        message: describeThrowSite(linked),
+                        stackTrace: formatThrowFrames(linked),
+                    },
+                ],
+            },
+        },
+    };
+}
+
+// Answer exceptionInfo for a native stop when the LLDB adapter has no such request.
+// Returns true if the request was answered here.
+export function handleNativeExceptionInfo(context: ExceptionContext, request: DapRequest): boolean {
+    if (adapterSupports(context, "lldb", "supportsExceptionInfoRequest")) {
+        return false;
+    }
+    const stop = context.exceptionState.lastNativeStop;
+    const response: DapResponse = {
+        seq: context.session.clientSeq++,
+        type: "response",
+        request_seq: request.seq,
+        command: request.command,
+        success: true,
+        body: {
+            exceptionId: stop?.text ?? "C++ exception",
+            description: stop?.description ?? stop?.text,
+            breakMode: "always",
+        },
+    };
+    context.sendToClient(response);
+    return true;
+}
+
+// Read the mangled name of the thrown type from __cxa_throw's type_info argument
+// (type_info stores its name pointer right after the vtable pointer; no calls are made).
+async function readThrownTypeName(context: ExceptionContext, frameId: number): Promise<string | undefined> {
+    const evaluated = await evaluateNative(
+        context.lldbState,
+        frameId,
+        "*(const char **)((char *)$arg2 + sizeof(void *))",
+    );
+    const mangled = parseCString(evaluated.result);
+    return mangled ? demangleTypeName(mangled) : undefined;
+}
+
+// Demangle the common type_info name forms: "St13runtime_error", "N2ns5ErrorE", "5Error".
+export function demangleTypeName(mangled: string): string {
+    let rest = mangled.replace(/^\*/, "");
+    const parts: string[] = [];
+    if (rest.startsWith("St")) {
+        parts.push("std");
+        rest = rest.slice(2);
+    } else if (rest.startsWith("N") && rest.endsWith("E")) {
+        rest = rest.slice(1, -1);
+        if (rest.startsWith("St")) {
+            parts.push("std");
+            rest = rest.slice(2);
+        }
+    }
+    while (rest.length > 0) {
+        const match = /^(\d+)/.exec(rest);
+        if (!match) {
+            // Templates and other forms: keep the mangled name.
+            return mangled;
+        }
+        const length = Number(match[1]);
+        parts.push(rest.slice(match[1].length, match[1].length + length));
+        rest = rest.slice(match[1].length + length);
+    }
+    return parts.length > 0 ? parts.join("::") : mangled;
+}
+
+function describeThrowSite(site: NativeThrowSite): string {
+    const origin = site.frames[0];
+    const location = origin?.path ? ` (${origin.path}:${origin.line ?? 0})` : "";
+    const typeName = site.typeName ? ` ${site.typeName}` : "";
+    return `C++ exception${typeName} thrown in ${origin?.name ?? "native code"}${location}`;
+}
+
+function formatThrowFrames(site: NativeThrowSite): string {
+    return site.frames
+        .map((frame) => `    at ${frame.name}${frame.path ? ` (${frame.path}:${frame.line ?? 0})` : ""}`)
+        .join("\n");
+}
+
+function frameName(frame: Record<string, unknown>): string {
+    const name = String(frame.name ?? "");
+    return name.slice(name.lastIndexOf("`") + 1).trim();
+}
@@ -0,0 +1,248 @@
+import { DapRequest, FunctionBreakpoint, PendingSetBreakpoints } from "./data_types";
+import { BreakpointContext, sendMergedResponse } from "./proxy_breakpoints";
+import { runLldbCommand } from "./proxy_lldb";
+
+type FunctionBreakpointRoute = "debugpy" | "lldb" | "lldb-command";
+
+// Handle setFunctionBreakpoints by routing each name to the adapter that understands it.
+// Steps:
+// 1) Classify names: plain Python names -> debugpy; C++-qualified names -> LLDB;
+//    "regex:" and "module:" forms -> LLDB breakpoint commands.
+// 2) Send every adapter its subset (an empty subset clears its previous breakpoints).
+// 3) Cache the LLDB subset so it can be re-applied after attach.
+// 4) Merge results back into the original order.
+export function handleSetFunctionBreakpoints(
+    context: BreakpointContext,
+    request: DapRequest,
+): void {
+    const breakpoints = (request.arguments?.breakpoints as FunctionBreakpoint[] | undefined) ?? [];
+    const pending: PendingSetBreakpoints = {
+        originalSeq: request.seq,
+        command: "setFunctionBreakpoints",
+        breakpoints,
+        results: new Array(breakpoints.length),
+        notes: new Array(breakpoints.length).fill(undefined),
+        remaining: 0,
+        success: true,
+    };
+    context.breakpointState.pendingSetBreakpoints.set(request.seq, pending);
+
+    const routes = breakpoints.map((bp) => classifyFunctionBreakpoint(bp.name));
+    const indicesFor = (route: FunctionBreakpointRoute): number[] =>
+        routes.flatMap((value, index) => (value === route ? [index] : []));
+    const pythonIndices = indicesFor("debugpy");
+    const nativeIndices = indicesFor("lldb");
+    const commandIndices = indicesFor("lldb-command");
+
+    sendDebugpyPart(context, pending, pythonIndices);
+
+    const lldbIndices = [...nativeIndices, ...commandIndices];
+    context.breakpointState.functionBreakpointCache = lldbIndices.map((index) => ({
+        ...breakpoints[index],
+    }));
+    if (lldbIndices.length > 0) {
+        context.session.cppBreakpointsPresent = true;
+    }
+
+    const lldbUsable = Boolean(context.lldbState.connection && context.lldbState.available);
+    if (!lldbUsable || !context.lldbState.sessionStarted) {
+        for (const index of lldbIndices) {
+            pending.results[index] = {
+                verified: false,
+                message: lldbUsable
+                    ? "LLDB not attached yet; breakpoint pending."
+                    : "LLDB adapter unavailable for C++ function breakpoint.",
+            };
+        }
+        sendMergedResponse(context, pending);
+        return;
+    }
+
+    sendLldbPart(context, pending, nativeIndices);
+    pending.remaining += 1;
+    void applyCommandBreakpoints(
+        context,
+        commandIndices.map((index) => breakpoints[index]),
+    ).then((results) => {
+        commandIndices.forEach((index, i) => {
+            pending.results[index] = results[i];
+        });
+        pending.remaining -= 1;
+        sendMergedResponse(context, pending);
+    });
+}
+
+// Re-apply cached C++ function breakpoints after LLDB attaches.
+// Steps:
+// 1) Send named breakpoints with setFunctionBreakpoints (tracked as a refresh).
+// 2) Re-create regex:/module: breakpoints with LLDB commands.
+export function refreshLldbFunctionBreakpoints(context: BreakpointContext): void {
+    const connection = context.lldbState.connection;
+    const cached = context.breakpointState.functionBreakpointCache;
+    if (!connection || !context.lldbState.available || cached.length === 0) {
+        return;
+    }
+    const request: DapRequest = {
+        seq: context.lldbState.seq++,
+        type: "request",
+        command: "setFunctionBreakpoints",
+        arguments: {
+            breakpoints: cached.filter((bp) => classifyFunctionBreakpoint(bp.name) === "lldb"),
+        },
+    };
+    context.lldbState.pendingRefreshEvents.add(request.seq);
+    connection.send(request);
+
+    const commandBreakpoints = cached.filter(
+        (bp) => classifyFunctionBreakpoint(bp.name) === "lldb-command",
+    );
+    if (commandBreakpoints.length > 0) {
+        void applyCommandBreakpoints(context, commandBreakpoints);
+    }
+}
+
+// Decide which adapter owns a function breakpoint name.
+export function classifyFunctionBreakpoint(name: string): FunctionBreakpointRoute {
+    const trimmed = name.trim();
+    if (/^(regex|module):/.test(trimmed)) {
+        return "lldb-command";
+    }
+    // Scopes, signatures, templates, destructors and operators are C++ syntax.
+    if (/::|[()<>~&*,\s]|^operator\b/.test(trimmed)) {
+        return "lldb";
+    }
+    return "debugpy";
+}
+
+function sendDebugpyPart(
+    context: BreakpointContext,
+    pending: PendingSetBreakpoints,
+    indices: number[],
+): void {
+    const request: DapRequest = {
+        seq: context.debugpyState.seq++,
+        type: "request",
+        command: "setFunctionBreakpoints",
+        arguments: {
+            breakpoints: indices.map((index) => pending.breakpoints[index]),
+        },
+    };
+    context.debugpyState.pendingSetBreakpoints.set(request.seq, {
+        originalSeq: pending.originalSeq,
+        indices,
+        originalLines: [],
+    });
+    pending.remaining += 1;
+    context.debugpyState.connection.send(request);
+}
+
+function sendLldbPart(
+    context: BreakpointContext,
+    pending: PendingSetBreakpoints,
+    indices: number[],
+): void {
+    const connection = context.lldbState.connection;
+    if (!connection) {
+        return;
+    }
+    const request: DapRequest = {
+        seq: context.lldbState.seq++,
+        type: "request",
+        command: "setFunctionBreakpoints",
+        arguments: {
+            breakpoints: indices.map((index) => pending.breakpoints[index]),
+        },
+    };
+    context.lldbState.pendingSetBreakpoints.set(request.seq, {
+        originalSeq: pending.originalSeq,
+        indices,
+        originalLines: [],
+    });
+    pending.remaining += 1;
+    connection.send(request);
+}
+
+// Replace the command-created LLDB breakpoints with a new set, one request at a
+// time: an overlapping request would otherwise delete the ids of a replacement
+// still in progress and leave its breakpoints behind.
+function applyCommandBreakpoints(
+    context: BreakpointContext,
+    breakpoints: FunctionBreakpoint[],
+): Promise<Array<Record<string, unknown>>> {
+    const { breakpointState } = context;
+    const run = breakpointState.commandBreakpointQueue.then(() =>
+        replaceCommandBreakpoints(context, breakpoints),
+    );
+    breakpointState.commandBreakpointQueue = run.then(
+        () => undefined,
+        () => undefined,
+    );
+    return run;
+}
+
+// Steps:
+// 1) Delete the breakpoints created by the previous request.
+// 2) Create one LLDB breakpoint per regex:/module: entry and report its state.
+async function replaceCommandBreakpoints(
+    context: BreakpointContext,
+    breakpoints: FunctionBreakpoint[],
+): Promise<Array<Record<string, unknown>>> {
+    const { lldbState, breakpointState } = context;
+    const stale = breakpointState.commandBreakpointIds;
+    breakpointState.commandBreakpointIds = [];
+    if (stale.length > 0) {
+        await runLldbCommand(lldbState, undefined, `breakpoint delete ${stale.join(" ")}`);
+    }
+
+    const results: Array<Record<string, unknown>> = [];
+    for (const bp of breakpoints) {
+        const created = await runLldbCommand(lldbState, undefined, buildBreakpointCommand(bp));
+        const output = created.result ?? "";
+        const id = Number(/Breakpoint (\d+):/.exec(output)?.[1]);
+        if (!Number.isInteger(id)) {
+            results.push({
+                verified: false,
+                message: created.error ?? (output || "LLDB could not create the breakpoint."),
+            });
+            continue;
+        }
+        breakpointState.commandBreakpointIds.push(id);
+        // Pending breakpoints resolve later, when a matching module is loaded.
+        const resolved = !/no locations/i.test(output);
+        results.push({
+            verified: resolved,
+            message: resolved ? undefined : "No matching functions loaded yet; breakpoint pending.",
+        });
+    }
+    return results;
+}
+
+// Translate "regex:<pattern>", "module:<library>" and "module:<library>!<name or regex:...>"
+// into an LLDB `breakpoint set` command.
+function buildBreakpointCommand(bp: FunctionBreakpoint): string {
+    let spec = bp.name.trim();
+    const args = ["breakpoint", "set"];
+    const moduleMatch = /^module:([^!]+)(?:!(.*))?$/.exec(spec);
+    if (moduleMatch) {
+        args.push("--shlib", quoteLldbArgument(moduleMatch[1].trim()));
+        // A bare module: breaks on every function in the library.
+        spec = moduleMatch[2]?.trim() || "regex:.";
+    }
+    if (spec.startsWith("regex:")) {
+        args.push("--func-regex", quoteLldbArgument(spec.slice("regex:".length)));
+    } else {
+        args.push("--name", quoteLldbArgument(spec));
+    }
+    if (bp.condition) {
+        args.push("--condition", quoteLldbArgument(bp.condition));
+    }
+    const hitCount = Number(bp.hitCondition);
+    if (bp.hitCondition && Number.isInteger(hitCount) && hitCount > 0) {
+        args.push("--ignore-count", String(hitCount - 1));
+    }
+    return args.join(" ");
+}
+
+function quoteLldbArgument(value: string): string {
+    return `"${value.replace(/\\/g, "\\\\").replace(/"/g, "\\\"")}"`;
+}
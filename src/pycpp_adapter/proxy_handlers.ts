@@ -12,16 +12,124 @@ import {
     handleSetBreakpoints,
     refreshLldbBreakpoints,
 } from "./proxy_breakpoints";
-import { DebugpyState, LldbState, SessionState } from "./proxy_types";
+import {
+    CapabilityContext,
+    handleDebugpyInitializeResponse,
+    handleLldbInitializeResponse,
+} from "./proxy_capabilities";
+import {
+    ExceptionContext,
+    augmentExceptionInfo,
+    handleNativeExceptionInfo,
+    handleSetExceptionBreakpoints,
+    handleThrowRecorderStop,
+    installThrowRecorder,
+    isThrowRecorderCandidate,
+    onNativeStop,
+    onPythonStop,
+    onResume,
+    refreshLldbExceptionBreakpoints,
+} from "./proxy_exceptions";
+import {
+    handleDataBreakpointInfo,
+    handleSetDataBreakpoints,
+    handleSetInstructionBreakpoints,
+    isLldbReady,
+    refreshLldbNativeBreakpoints,
+} from "./proxy_native_breakpoints";
+import {
+    MemoryContext,
+    annotatePythonReferences,
+    handleReadMemory,
+    handleWriteMemory,
+    resetPythonReferences,
+    trackPythonReferenceRequest,
+} from "./proxy_memory";
+import {
+    handleSetFunctionBreakpoints,
+    refreshLldbFunctionBreakpoints,
+} from "./proxy_function_breakpoints";
+import { AdapterName, DebugpyState, IdState, LldbState, SessionState } from "./proxy_types";
+import {
+    StackContext,
+    handleMergedStackTrace,
+    handlePythonFrameRequest,
+    isMergedStackEnabled,
+    resetMergedStacks,
+} from "./proxy_stack";
+import {
+    SteppingContext,
+    handleNativeStepOut,
+    handlePythonStepIn,
+    onNativeStopped,
+    onPythonStopped,
+} from "./proxy_stepping";
+import {
+    invalidateStopScopedIds,
+    translateToAdapter,
+    translateToClient,
+} from "./proxy_ids";
+import {
+    PauseContext,
+    handlePythonPause,
+    onNativePaused,
+    onNativeResume,
+    onPythonPaused,
+} from "./proxy_pause";
+import {
+    PyObjectContext,
+    handlePythonObjectVariables,
+    resetPyObjects,
+    summarizePythonObjects,
+} from "./proxy_pyobjects";
+import { ConsoleContext, routeConsoleInput } from "./proxy_console";
+import { NativePythonContext, handleNativePythonRequest, resetNativePython } from "./proxy_native_python";
+import {
+    NativeViewContext,
+    addNativeViewChild,
+    handleNativeViewEvent,
+    handleNativeViewVariables,
+    resetNativeView,
+    trackNativeViewRequest,
+} from "./proxy_native_view";
+import {
+    RunStateContext,
+    isResumeCommand,
+    onAdapterEvent,
+    onAdapterStopped,
+    onResumeResponse,
+} from "./proxy_run_state";
+import {
+    ThreadContext,
+    handleNativeOnlyThreadRequest,
+    handleThreads,
+    onPythonThreadStopped,
+    onThreadsResumed,
+} from "./proxy_threads";
 import { ShutdownManager } from "./proxy_shutdown";
-import { delay } from "./utils";
+import { NativeChildWatcher } from "./proxy_children";
+import { buildLldbFormatterCommands, delay } from "./utils";
 
 export type HandlerContext = {
     session: SessionState;
     debugpyState: DebugpyState;
     lldbState: LldbState;
+    idState: IdState;
     breakpointContext: BreakpointContext;
+    capabilityContext: CapabilityContext;
+    exceptionContext: ExceptionContext;
+    memoryContext: MemoryContext;
+    stackContext: StackContext;
+    steppingContext: SteppingContext;
+    threadContext: ThreadContext;
+    pauseContext: PauseContext;
+    runStateContext: RunStateContext;
+    pyObjectContext: PyObjectContext;
+    nativeViewContext: NativeViewContext;
+    nativePythonContext: NativePythonContext;
+    consoleContext: ConsoleContext;
     shutdownManager: ShutdownManager;
+    nativeChildWatcher?: NativeChildWatcher;
     config: vscode.DebugConfiguration;
     output: vscode.OutputChannel;
     sendToClient: (message: DapMessage) => void;
@@ -41,6 +149,7 @@ export type ProxyHandlers = {
 export function forwardClientRequestToLldb(
     request: DapRequest,
     lldbState: LldbState,
+    responseCommand?: string,
 ): void {
     // Forward a request and remember how to map the response back to VS Code.
     if (!lldbState.connection) {
@@ -48,11 +157,14 @@ export function forwardClientRequestToLldb(
     }
     const lldbRequest: DapRequest = {
         ...request,
+        arguments: request.arguments ? structuredClone(request.arguments) : undefined,
         seq: lldbState.seq++,
     };
+    // Editor paths -> debuggee paths (pathMappings).
+    lldbState.pathMapper.mapSources(lldbRequest.arguments, "toAdapter");
     lldbState.pendingClientRequests.set(lldbRequest.seq, {
         clientSeq: request.seq,
-        command: request.command,
+        command: responseCommand ?? request.command,
     });
     lldbState.connection.send(lldbRequest);
 }
@@ -133,6 +245,16 @@ export function createHandlers(context: HandlerContext): ProxyHandlers {
         if (!session.clientConfigurationDone || session.pendingSetBreakpointsRequests > 0) {
             return false;
         }
+        if (
+            session.attachedToRunningProcess &&
+            session.cppBreakpointsPresent &&
+            context.lldbState.attachRequested &&
+            !session.lldbAttachCompleted
+        ) {
+            // Attached processes (e.g. subprocesses held by debugpy) must not resume
+            // before LLDB is attached, or early C++ breakpoints are missed.
+            return false;
+        }
         session.debugpyConfigurationDoneSent = true;
         logTiming("send gated configurationDone");
         const configDone: DapRequest = {
@@ -149,10 +271,22 @@ export function createHandlers(context: HandlerContext): ProxyHandlers {
     context.breakpointContext.onSetBreakpointsResolved = trySendDebugpyConfigurationDone;
 
     // Handle messages from the VS Code client.
-    const handleClientMessage = (message: DapMessage): void => {
-        if (message.type !== "request") {
+    const handleClientMessage = (clientMessage: DapMessage): void => {
+        if (clientMessage.type !== "request") {
             return;
         }
+        // Client ids -> adapter ids; the adapter owning an id answers requests about it.
+        const translated = translateToAdapter(
+            context.idState,
+            context.session.activeAdapter,
+            clientMessage,
+        );
+        // py:/cpp:/lldb: console input names its debugger; some of it is answered here.
+        const routed = routeConsoleInput(context.consoleContext, translated);
+        if (!routed) {
+            return;
+        }
+        const { request: message, owner } = routed;
 
         if (message.command === "disconnect" || message.command === "terminate") {
             context.output.appendLine(
@@ -200,7 +334,10 @@ export function createHandlers(context: HandlerContext): ProxyHandlers {
                 return;
             }
             case "attach": {
+                // debugpy attaches by processId (injection) or connect (debugpy.listen);
+                // LLDB follows once the PID is known.
                 logTiming("client attach", `seq=${message.seq}`);
+                context.session.attachedToRunningProcess = true;
                 forwardClientRequestToDebugpy(message, context.debugpyState);
                 return;
             }
@@ -212,6 +349,54 @@ export function createHandlers(context: HandlerContext): ProxyHandlers {
                 handleSetBreakpoints(context.breakpointContext, message);
                 return;
             }
+            case "setFunctionBreakpoints": {
+                // Split function breakpoints between debugpy and LLDB by name syntax.
+                context.session.pendingSetBreakpointsRequests += 1;
+                handleSetFunctionBreakpoints(context.breakpointContext, message);
+                return;
+            }
+            case "dataBreakpointInfo": {
+                handleDataBreakpointInfo(context.breakpointContext, message);
+                return;
+            }
+            case "setDataBreakpoints": {
+                // Watchpoints are native memory; LLDB owns them all.
+                handleSetDataBreakpoints(context.breakpointContext, message);
+                return;
+            }
+            case "setInstructionBreakpoints": {
+                handleSetInstructionBreakpoints(context.breakpointContext, message);
+                return;
+            }
+            case "disassemble": {
+                // Instruction pointer references only come from LLDB's native frames.
+                if (isLldbReady(context.breakpointContext)) {
+                    forwardClientRequestToLldb(message, context.lldbState);
+                } else {
+                    forwardClientRequestToDebugpy(message, context.debugpyState);
+                }
+                return;
+            }
+            case "threads": {
+                // One entry per OS thread, whichever adapter is stopped.
+                handleThreads(context.threadContext, message);
+                return;
+            }
+            case "readMemory": {
+                // Native pointers go to LLDB; Python buffers are read by the proxy.
+                handleReadMemory(context.memoryContext, message);
+                return;
+            }
+            case "writeMemory": {
+                handleWriteMemory(context.memoryContext, message);
+                return;
+            }
+            case "setExceptionBreakpoints": {
+                // Each adapter only gets the filters from its own namespace.
+                context.session.pendingSetBreakpointsRequests += 1;
+                handleSetExceptionBreakpoints(context.breakpointContext, message);
+                return;
+            }
             case "configurationDone": {
                 logTiming("client configurationDone", `seq=${message.seq}`);
                 context.session.clientConfigurationDone = true;
@@ -233,16 +418,80 @@ export function createHandlers(context: HandlerContext): ProxyHandlers {
                 return;
             }
             default:
+                // Ids the proxy allocated itself (allocateProxyId) have no owning adapter;
+                // an adapter id translated back may equal one of them.
+                if (!owner && handleNativePythonRequest(context.nativePythonContext, message)) {
+                    // Python evaluated through LLDB while stopped in native code.
+                    return;
+                }
+                if (!owner && handlePythonFrameRequest(context.stackContext, message)) {
+                    // Synthesized Python frame from a merged stack; answered by the proxy.
+                    return;
+                }
+                if (!owner && handlePythonObjectVariables(context.pyObjectContext, message)) {
+                    // Items of a Python container shown in a C++ frame.
+                    return;
+                }
+                if (!owner && handleNativeViewVariables(context.nativeViewContext, message)) {
+                    // C++ members of an object bound with pybind11/nanobind.
+                    return;
+                }
+                if (handleNativeOnlyThreadRequest(context.threadContext, message)) {
+                    // Native-only thread selected while Python is stopped.
+                    return;
+                }
+                const routeToLldb = owner
+                    ? owner === "lldb"
+                    : shouldRouteToLldb(message.command, context.session.activeAdapter);
+                if (isResumeCommand(message.command)) {
+                    resetMergedStacks(context.stackContext);
+                    onResume(context.exceptionContext);
+                    onThreadsResumed(context.threadContext);
+                    invalidateStopScopedIds(context.idState, routeToLldb ? "lldb" : "debugpy");
+                    if (routeToLldb) {
+                        onNativeResume(context.pauseContext);
+                    }
+                }
                 if (
-                    shouldRouteToLldb(message.command, context.session.activeAdapter) &&
+                    routeToLldb &&
                     context.lldbState.connection &&
                     context.lldbState.available
                 ) {
+                    if (
+                        message.command === "stackTrace" &&
+                        isMergedStackEnabled(context.stackContext)
+                    ) {
+                        // Interleave Python frames into the native stack.
+                        handleMergedStackTrace(context.stackContext, message);
+                        return;
+                    }
+                    if (
+                        message.command === "exceptionInfo" &&
+                        handleNativeExceptionInfo(context.exceptionContext, message)
+                    ) {
+                        // LLDB adapter without exceptionInfo; answered from the stop event.
+                        return;
+                    }
+                    if (message.command === "stepOut") {
+                        // Leaving the bound C++ function returns to the calling Python code.
+                        handleNativeStepOut(context.steppingContext, message);
+                        return;
+                    }
                     // When native code is stopped, route stepping/stack/eval to LLDB.
                     forwardClientRequestToLldb(message, context.lldbState);
                 }
+                else if (message.command === "stepIn" && context.session.activeAdapter === "debugpy") {
+                    // A Python call into an extension module may step into C++.
+                    handlePythonStepIn(context.steppingContext, message);
+                }
+                else if (message.command === "pause") {
+                    // Falls back to LLDB when Python is stuck inside a C++ call.
+                    handlePythonPause(context.pauseContext, message);
+                }
                 else {
                     // Otherwise, route to debugpy.
+                    trackPythonReferenceRequest(context.memoryContext, message);
+                    trackNativeViewRequest(context.nativeViewContext, message);
                     forwardClientRequestToDebugpy(message, context.debugpyState);
                 }
                 return;
@@ -252,12 +501,37 @@ export function createHandlers(context: HandlerContext): ProxyHandlers {
     // Handle messages coming from debugpy.
     const handleDebugpyMessage = (message: DapMessage): void => {
         // Messages coming from debugpy (Python debugger).
-        if (message.type === "response" && message.command === "setBreakpoints") {
+        if (message.type === "response") {
+            onResumeResponse(
+                context.runStateContext,
+                "debugpy",
+                message,
+                context.debugpyState.pendingClientRequests.has(message.request_seq),
+            );
+            const internal = context.debugpyState.pendingInternalRequests.get(message.request_seq);
+            if (internal) {
+                // Response to a proxy-originated request (see requestFromDebugpy).
+                context.debugpyState.pendingInternalRequests.delete(message.request_seq);
+                internal(message);
+                return;
+            }
+        }
+
+        if (
+            message.type === "response" &&
+            (message.command === "setBreakpoints" ||
+                message.command === "setFunctionBreakpoints" ||
+                message.command === "setExceptionBreakpoints")
+        ) {
             const pending = context.debugpyState.pendingSetBreakpoints.get(message.request_seq);
             if (pending) {
                 // Merge partial breakpoint results back into original order.
                 context.debugpyState.pendingSetBreakpoints.delete(message.request_seq);
-                applySetBreakpointsResponse(context.breakpointContext, pending, message);
+                applySetBreakpointsResponse(
+                    context.breakpointContext,
+                    pending,
+                    translateToClient(context.idState, "debugpy", message),
+                );
                 trySendDebugpyConfigurationDone();
                 return;
             }
@@ -279,9 +553,45 @@ export function createHandlers(context: HandlerContext): ProxyHandlers {
             if (clientPending) {
                 // Map debugpy response back to the original client request.
                 context.debugpyState.pendingClientRequests.delete(message.request_seq);
+                if (clientPending.command === "initialize") {
+                    // Answered once LLDB's capabilities are merged in.
+                    handleDebugpyInitializeResponse(
+                        context.capabilityContext,
+                        mapAdapterResponseToClient(context, "debugpy", message, clientPending),
+                    );
+                    return;
+                }
+                if (clientPending.command === "exceptionInfo") {
+                    // Link a Python exception to the C++ throw site it came from.
+                    context.sendToClient(
+                        augmentExceptionInfo(
+                            context.exceptionContext,
+                            mapAdapterResponseToClient(context, "debugpy", message, clientPending),
+                        ),
+                    );
+                    return;
+                }
+                const annotated = annotatePythonReferences(context.memoryContext, clientPending.clientSeq, message);
+                if (clientPending.command === "variables" || clientPending.command === "evaluate") {
+                    // Objects bound with pybind11/nanobind get a "[native]" child.
+                    void addNativeViewChild(
+                        context.nativeViewContext,
+                        clientPending.clientSeq,
+                        annotated,
+                        (response) => mapAdapterResponseToClient(context, "debugpy", response, clientPending),
+                    ).then((response) => context.sendToClient(response));
+                    return;
+                }
                 context.sendToClient(
-                    mapAdapterResponseToClient(context, message, clientPending),
+                    mapAdapterResponseToClient(context, "debugpy", annotated, clientPending),
                 );
+                if (clientPending.command === "attach" && message.success) {
+                    // With a known PID, LLDB need not wait for debugpy's process event.
+                    const pid = Number(context.config.processId);
+                    if (Number.isInteger(pid) && pid > 0) {
+                        attachLldbToProcess(context, pid);
+                    }
+                }
                 if (clientPending.command === "setBreakpoints") {
                     if (context.session.pendingSetBreakpointsRequests > 0) {
                         context.session.pendingSetBreakpointsRequests -= 1;
@@ -310,7 +620,14 @@ export function createHandlers(context: HandlerContext): ProxyHandlers {
         if (message.type === "event" && message.event === "stopped") {
             // Python stopped -> route stepping to debugpy.
             logTiming("debugpy stopped event");
-            context.session.activeAdapter = "debugpy";
+            onAdapterStopped(context.runStateContext, "debugpy", message);
+            resetMergedStacks(context.stackContext);
+            resetPythonReferences(context.memoryContext);
+            resetNativeView(context.nativeViewContext);
+            onPythonPaused(context.pauseContext);
+            onPythonThreadStopped(context.threadContext, message);
+            onPythonStopped(context.steppingContext);
+            onPythonStop(context.exceptionContext, message);
             // If this is the forced entry stop, handle auto-continue coordination
             if (context.session.forcedStopOnEntry && !context.session.pendingAutoContinue) {
                 const threadId = (message as DapEvent).body?.threadId as number | undefined;
@@ -331,7 +648,28 @@ export function createHandlers(context: HandlerContext): ProxyHandlers {
             context.session.exitedEventSeen = true;
         }
 
-        context.sendToClient(message);
+        if (message.type === "event" && message.event === "continued") {
+            invalidateStopScopedIds(context.idState, "debugpy");
+        }
+
+        if (message.type === "event") {
+            onAdapterEvent(context.runStateContext, "debugpy", message);
+        }
+
+        context.sendToClient(translateToClient(context.idState, "debugpy", message));
+    };
+
+    // Native stopped -> route stepping to LLDB.
+    const handleLldbStopped = (event: DapEvent): void => {
+        logTiming("lldb stopped event");
+        onAdapterStopped(context.runStateContext, "lldb", event);
+        resetMergedStacks(context.stackContext);
+        resetPyObjects(context.pyObjectContext);
+        resetNativePython(context.nativePythonContext);
+        onNativePaused(context.pauseContext);
+        onNativeStopped(context.steppingContext, event);
+        onNativeStop(context.exceptionContext, event);
+        context.sendToClient(translateToClient(context.idState, "lldb", event));
     };
 
     // Handle messages coming from LLDB.
@@ -341,12 +679,34 @@ export function createHandlers(context: HandlerContext): ProxyHandlers {
             return;
         }
         // Messages coming from LLDB (native debugger).
+        // Debuggee paths -> editor paths (stack frames, breakpoint events, ...).
+        if (message.type !== "request") {
+            context.lldbState.pathMapper.mapSources(message.body, "toClient");
+        }
         if (message.type === "response") {
+            onResumeResponse(
+                context.runStateContext,
+                "lldb",
+                message,
+                context.lldbState.pendingClientRequests.has(message.request_seq),
+            );
+            const internal = context.lldbState.pendingInternalRequests.get(message.request_seq);
+            if (internal) {
+                // Response to a proxy-originated request (see requestFromLldb).
+                context.lldbState.pendingInternalRequests.delete(message.request_seq);
+                internal(message);
+                return;
+            }
+
             const pending = context.lldbState.pendingSetBreakpoints.get(message.request_seq);
             if (pending) {
                 // Merge partial breakpoint results back into original order.
                 context.lldbState.pendingSetBreakpoints.delete(message.request_seq);
-                applySetBreakpointsResponse(context.breakpointContext, pending, message);
+                applySetBreakpointsResponse(
+                    context.breakpointContext,
+                    pending,
+                    translateToClient(context.idState, "lldb", message),
+                );
                 trySendDebugpyConfigurationDone();
                 return;
             }
@@ -360,11 +720,19 @@ export function createHandlers(context: HandlerContext): ProxyHandlers {
                         `LLDB request ${message.command} failed: ${message.message ?? "unknown error"}`,
                     );
                 }
+                if (message.command === "initialize") {
+                    handleLldbInitializeResponse(context.capabilityContext, message);
+                }
                 if (message.command === "attach") {
                     context.session.lldbAttachCompleted = true;
                     tryAutoContinue();
                     // Once attached, refresh cached JIT breakpoints.
                     refreshLldbBreakpoints(context.breakpointContext);
+                    refreshLldbFunctionBreakpoints(context.breakpointContext);
+                    refreshLldbExceptionBreakpoints(context.breakpointContext);
+                    refreshLldbNativeBreakpoints(context.breakpointContext);
+                    void installThrowRecorder(context.exceptionContext);
+                    trySendDebugpyConfigurationDone();
                 }
                 if (pendingCommand === "disconnect" || pendingCommand === "terminate") {
                     context.shutdownManager.handleLldbTerminateResponse(
@@ -380,8 +748,17 @@ export function createHandlers(context: HandlerContext): ProxyHandlers {
             if (clientPending) {
                 // Map LLDB response back to the original client request.
                 context.lldbState.pendingClientRequests.delete(message.request_seq);
+                if (clientPending.command === "variables" || clientPending.command === "evaluate") {
+                    // Python objects held by C++ code are shown as Python values.
+                    void summarizePythonObjects(
+                        context.pyObjectContext,
+                        message,
+                        (response) => mapAdapterResponseToClient(context, "lldb", response, clientPending),
+                    ).then((summarized) => context.sendToClient(summarized));
+                    return;
+                }
                 context.sendToClient(
-                    mapAdapterResponseToClient(context, message, clientPending),
+                    mapAdapterResponseToClient(context, "lldb", message, clientPending),
                 );
                 return;
             }
@@ -392,6 +769,25 @@ export function createHandlers(context: HandlerContext): ProxyHandlers {
                 return;
             }
 
+            if (context.lldbState.pendingRefreshEvents.delete(message.request_seq)) {
+                // Let VS Code update re-applied function/data breakpoints and exception filters.
+                const responseBreakpoints =
+                    (message.body?.breakpoints as Array<Record<string, unknown>>) ?? [];
+                for (const bp of responseBreakpoints) {
+                    const event: DapEvent = {
+                        seq: context.session.clientSeq++,
+                        type: "event",
+                        event: "breakpoint",
+                        body: {
+                            reason: "changed",
+                            breakpoint: bp,
+                        },
+                    };
+                    context.sendToClient(translateToClient(context.idState, "lldb", event));
+                }
+                return;
+            }
+
             const refresh = context.lldbState.pendingRefresh.get(message.request_seq);
             if (refresh) {
                 context.lldbState.pendingRefresh.delete(message.request_seq);
@@ -414,11 +810,11 @@ export function createHandlers(context: HandlerContext): ProxyHandlers {
                                 },
                             },
                         };
-                        context.sendToClient(event);
+                        context.sendToClient(translateToClient(context.idState, "lldb", event));
                     }
                 } else {
                     // If LLDB returns nothing, mark them as unverified.
-                    for (const line of refresh.lines) {
+                    for (const { line } of refresh.breakpoints) {
                         const event: DapEvent = {
                             seq: context.session.clientSeq++,
                             type: "event",
@@ -441,13 +837,35 @@ export function createHandlers(context: HandlerContext): ProxyHandlers {
             }
         }
 
+        if (message.type === "event" && handleNativeViewEvent(context.nativeViewContext, message)) {
+            // Stop and resume of a proxy read of C++ members while Python is stopped.
+            return;
+        }
+
         if (message.type === "event" && message.event === "stopped") {
-            // Native stopped -> route stepping to LLDB.
-            logTiming("lldb stopped event");
-            context.session.activeAdapter = "lldb";
+            if (isThrowRecorderCandidate(context.exceptionContext, message)) {
+                // Throw-site recording stops resume silently unless the user stops on throw.
+                void handleThrowRecorderStop(context.exceptionContext, message).then((resumed) => {
+                    if (!resumed) {
+                        handleLldbStopped(message);
+                    }
+                });
+                return;
+            }
+            handleLldbStopped(message);
+            return;
+        }
+
+        if (message.type === "event" && message.event === "continued") {
+            resetMergedStacks(context.stackContext);
+            invalidateStopScopedIds(context.idState, "lldb");
+        }
+
+        if (message.type === "event") {
+            onAdapterEvent(context.runStateContext, "lldb", message);
         }
 
-        context.sendToClient(message);
+        context.sendToClient(translateToClient(context.idState, "lldb", message));
     };
 
     return {
@@ -459,11 +877,12 @@ export function createHandlers(context: HandlerContext): ProxyHandlers {
 
 function mapAdapterResponseToClient(
     context: HandlerContext,
+    adapter: AdapterName,
     message: DapResponse,
     clientPending: { clientSeq: number; command: string },
 ): DapResponse {
     return {
-        ...message,
+        ...translateToClient(context.idState, adapter, message),
         seq: context.session.clientSeq++,
         request_seq: clientPending.clientSeq,
         command: clientPending.command,
@@ -472,16 +891,30 @@ function mapAdapterResponseToClient(
 
 // Attach LLDB to the debugpy process when debugpy reports the PID.
 // Steps:
-// 1) Validate attach eligibility and avoid duplicate attach.
-// 2) Send attach request to LLDB.
-// 3) Send configurationDone to complete the attach sequence.
+// 1) Read the PID from the event (fall back to the attach processId).
+// 2) Attach LLDB to it.
 function handleDebugpyProcessEvent(
     context: HandlerContext,
     message: DapMessage,
 ): void {
     // debugpy tells us the Python PID; use it to attach LLDB.
+    const reportedPid = (message as DapEvent).body?.systemProcessId as number | undefined;
+    const configuredPid = Number(context.config.processId);
+    const pid = reportedPid ?? (Number.isInteger(configuredPid) ? configuredPid : undefined);
+    if (pid) {
+        attachLldbToProcess(context, pid);
+        context.nativeChildWatcher?.start(pid);
+    }
+}
+
+// Attach LLDB to the Python process.
+// Steps:
+// 1) Validate attach eligibility and avoid duplicate attach.
+// 2) Send attach request to LLDB; its init commands connect a remote platform
+//    and load the formatter scripts.
+// 3) Send configurationDone to complete the attach sequence.
+function attachLldbToProcess(context: HandlerContext, pid: number): void {
     const shouldAttach = context.config.lldbAttachToPythonProcess !== false;
-    const pid = (message as DapEvent).body?.systemProcessId as number | undefined;
     if (
         shouldAttach &&
         pid &&
@@ -489,16 +922,27 @@ function handleDebugpyProcessEvent(
         context.lldbState.available &&
         !context.lldbState.attachRequested
     ) {
-        context.session.debuggeePid = pid;
+        if (!context.session.remoteDebuggee) {
+            // Only a local PID may be killed as a shutdown fallback.
+            context.session.debuggeePid = pid;
+        }
         context.lldbState.attachRequested = true;
         const lldbConn = context.lldbState.connection;
+        const initCommands = [
+            ...buildRemotePlatformCommands(context.config.lldbRemotePlatform),
+            ...buildLldbFormatterCommands(context.config),
+        ];
+        if (context.config.lldbConnect && context.config.lldbFormatters !== false) {
+            context.output.appendLine(
+                "[proxy] The bundled LLDB formatters are not loaded by a remote LLDB adapter (lldbConnect); " +
+                    "add them to lldbFormatterScripts with a path on the LLDB machine.",
+            );
+        }
         const attachRequest: DapRequest = {
             seq: context.lldbState.seq++,
             type: "request",
             command: "attach",
-            arguments: {
-                pid,
-            },
+            arguments: initCommands.length > 0 ? { pid, initCommands } : { pid },
         };
         context.lldbState.sessionStarted = true;
         context.lldbState.pendingRequests.set(attachRequest.seq, attachRequest.command);
@@ -514,6 +958,23 @@ function handleDebugpyProcessEvent(
     }
 }
 
+// Build LLDB init commands that connect to a remote `lldb-server platform`.
+// Steps:
+// 1) Accept "connect://host:port" or { name, url }.
+// 2) Select and connect the platform before attaching.
+function buildRemotePlatformCommands(value: unknown): string[] {
+    const platform = typeof value === "string" ? { url: value } : value;
+    if (!platform || typeof platform !== "object") {
+        return [];
+    }
+    const { name, url } = platform as { name?: unknown; url?: unknown };
+    if (typeof url !== "string" || !url) {
+        return [];
+    }
+    const platformName = typeof name === "string" && name ? name : "remote-linux";
+    return [`platform select ${platformName}`, `platform connect ${url}`];
+}
+
 // Decide whether a command should route to LLDB based on the active adapter.
 // Steps:
 // 1) Only route when LLDB is active.
@@ -533,7 +994,7 @@ function shouldRouteToLldb(
         command === "variables" ||
         command === "evaluate" ||
         command === "setVariable" ||
-        command === "threads" ||
+        command === "exceptionInfo" ||
         command === "continue" ||
         command === "next" ||
         command === "stepIn" ||
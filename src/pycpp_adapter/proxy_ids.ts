@@ -0,0 +1,151 @@
+import { DapRequest } from "./data_types";
+import { AdapterName, IdKind, IdState, IdTable } from "./proxy_types";
+
+// Keys whose numeric value is an adapter id, wherever they appear in a message.
+const ID_KEYS = new Map<string, IdKind>([
+    ["threadId", "thread"],
+    ["threadIds", "thread"],
+    ["frameId", "frame"],
+    ["variablesReference", "variables"],
+    ["sourceReference", "source"],
+    ["hitBreakpointIds", "breakpoint"],
+]);
+// Containers whose elements carry their own id in an "id" field.
+const ID_CONTAINERS = new Map<string, IdKind>([
+    ["threads", "thread"],
+    ["stackFrames", "frame"],
+    ["breakpoints", "breakpoint"],
+    ["breakpoint", "breakpoint"],
+]);
+// Ids that only live until the owning adapter resumes.
+const STOP_SCOPED_KINDS: IdKind[] = ["frame", "variables"];
+
+export function createIdState(): IdState {
+    const table = (): IdTable => ({ nextId: 1, toClient: new Map(), fromClient: new Map() });
+    return {
+        thread: table(),
+        frame: table(),
+        variables: table(),
+        source: table(),
+        breakpoint: table(),
+    };
+}
+
+// Rewrite adapter ids in a response or event into the client id space.
+// Each adapter id gets a client id from a shared counter per kind, so ids of
+// the two adapters never collide.
+export function translateToClient<T>(
+    idState: IdState,
+    adapter: AdapterName,
+    value: T,
+    containerKey?: string,
+): T {
+    return mapIds(value, (kind, id) => toClientId(idState, kind, adapter, id), containerKey) as T;
+}
+
+// Rewrite client ids in a request into the ids of the adapter that owns them.
+// Returns the owning adapter, or undefined when the request carries no known id
+// (the caller then routes by the stopped adapter as before).
+export function translateToAdapter(
+    idState: IdState,
+    activeAdapter: AdapterName,
+    request: DapRequest,
+): { request: DapRequest; owner?: AdapterName } {
+    if (!request.arguments) {
+        return { request };
+    }
+    let owner: AdapterName | undefined;
+    const args = mapIds(request.arguments, (kind, id) => {
+        const owners = idState[kind].fromClient.get(id);
+        if (!owners) {
+            return id;
+        }
+        // A thread known to both adapters belongs to whichever one is stopped.
+        const adapter: AdapterName = owners[activeAdapter] !== undefined
+            ? activeAdapter
+            : owners.debugpy !== undefined ? "debugpy" : "lldb";
+        owner ??= adapter;
+        return owners[adapter] ?? id;
+    }) as Record<string, unknown>;
+    return { request: { ...request, arguments: args }, owner };
+}
+
+// Give the Python and native ids of one OS thread the same client id.
+export function linkThreadIds(idState: IdState, debugpyId: number, lldbId: number): number {
+    const table = idState.thread;
+    const clientId = toClientId(idState, "thread", "debugpy", debugpyId);
+    table.toClient.set(`lldb:${lldbId}`, clientId);
+    table.fromClient.set(clientId, { ...table.fromClient.get(clientId), lldb: lldbId });
+    return clientId;
+}
+
+// The other adapter's id for a thread linked by linkThreadIds.
+export function linkedThreadId(
+    idState: IdState,
+    adapter: AdapterName,
+    id: number,
+    other: AdapterName,
+): number | undefined {
+    const clientId = idState.thread.toClient.get(`${adapter}:${id}`);
+    return clientId === undefined ? undefined : idState.thread.fromClient.get(clientId)?.[other];
+}
+
+// The adapter resumed: its frame and variable ids are no longer valid.
+export function invalidateStopScopedIds(idState: IdState, adapter: AdapterName): void {
+    for (const kind of STOP_SCOPED_KINDS) {
+        const table = idState[kind];
+        for (const [clientId, owners] of table.fromClient) {
+            const id = owners[adapter];
+            if (id !== undefined) {
+                table.fromClient.delete(clientId);
+                table.toClient.delete(`${adapter}:${id}`);
+            }
+        }
+    }
+}
+
+// Client id for something the proxy answers itself (synthesized Python frames,
+// expanded Python objects, "[native]" members). It comes from the same counter as
+// adapter ids, so it never collides with them, and has no owning adapter.
+export function allocateProxyId(idState: IdState, kind: IdKind): number {
+    return idState[kind].nextId++;
+}
+
+// Client id for one adapter id, allocated on first use.
+export function toClientId(idState: IdState, kind: IdKind, adapter: AdapterName, id: number): number {
+    const table = idState[kind];
+    const key = `${adapter}:${id}`;
+    let clientId = table.toClient.get(key);
+    if (clientId === undefined) {
+        clientId = table.nextId++;
+        table.toClient.set(key, clientId);
+        table.fromClient.set(clientId, { [adapter]: id });
+    }
+    return clientId;
+}
+
+// Copy a DAP value, passing every id found to `map`. Zero means "no reference" and is kept.
+function mapIds(
+    value: unknown,
+    map: (kind: IdKind, id: number) => number,
+    containerKey?: string,
+): unknown {
+    if (Array.isArray(value)) {
+        return value.map((item) => mapIds(item, map, containerKey));
+    }
+    if (!value || typeof value !== "object") {
+        return value;
+    }
+    const mapped: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+        const kind = key === "id" && containerKey ? ID_CONTAINERS.get(containerKey) : ID_KEYS.get(key);
+        if (kind && typeof item === "number" && item > 0) {
+            mapped[key] = map(kind, item);
+        } else if (kind && Array.isArray(item)) {
+            mapped[key] = item.map((id) => (typeof id === "number" && id > 0 ? map(kind, id) : id));
+        } else {
+            mapped[key] = mapIds(item, map, key);
+        }
+    }
+    return mapped;
+}
@@ -0,0 +1,111 @@
+import { DapRequest, DapResponse } from "./data_types";
+import { LldbState } from "./proxy_types";
+
+// Send a proxy-originated request to LLDB and resolve with its response.
+// Steps:
+// 1) Re-sequence in LLDB's space and register a resolver.
+// 2) Resolve with a failed response when LLDB is not connected.
+export function requestFromLldb(
+    lldbState: LldbState,
+    command: string,
+    args?: Record<string, unknown>,
+): Promise<DapResponse> {
+    const request: DapRequest = {
+        seq: lldbState.seq++,
+        type: "request",
+        command,
+        arguments: args,
+    };
+    if (!lldbState.connection || !lldbState.available) {
+        return Promise.resolve({
+            seq: 0,
+            type: "response",
+            request_seq: request.seq,
+            command,
+            success: false,
+            message: "LLDB adapter unavailable.",
+        });
+    }
+    const connection = lldbState.connection;
+    return new Promise((resolve) => {
+        lldbState.pendingInternalRequests.set(request.seq, resolve);
+        connection.send(request);
+    });
+}
+
+// Evaluate a C/C++ expression in an LLDB frame and return the result text.
+// CodeLLDB needs the "/nat" prefix for native expressions; lldb-dap evaluates
+// native expressions directly in the "watch" context.
+export async function evaluateNative(
+    lldbState: LldbState,
+    frameId: number | undefined,
+    expression: string,
+): Promise<{ result?: string; error?: string; variablesReference?: number }> {
+    const response = await requestFromLldb(lldbState, "evaluate", {
+        expression: lldbState.flavor === "codelldb" ? `/nat ${expression}` : expression,
+        frameId,
+        context: "watch",
+    });
+    if (!response.success) {
+        return { error: response.message ?? "evaluation failed" };
+    }
+    return {
+        result: response.body?.result as string | undefined,
+        variablesReference: response.body?.variablesReference as number | undefined,
+    };
+}
+
+// Run an LLDB command line (as typed in the LLDB console) and return its output.
+export async function runLldbCommand(
+    lldbState: LldbState,
+    frameId: number | undefined,
+    command: string,
+): Promise<{ result?: string; error?: string }> {
+    const response = await requestFromLldb(lldbState, "evaluate", {
+        // CodeLLDB runs "/cmd" input as a command; lldb-dap uses the "`" escape.
+        expression: lldbState.flavor === "codelldb" ? `/cmd ${command}` : `\`${command}`,
+        frameId,
+        context: "repl",
+    });
+    if (!response.success) {
+        return { error: response.message ?? "command failed" };
+    }
+    return { result: response.body?.result as string | undefined };
+}
+
+// Parse a pointer value from an evaluate result ("0x00007f12..." or "(void *) 0x...").
+export function parsePointer(result: string | undefined): bigint | undefined {
+    const match = /0x[0-9a-fA-F]+/.exec(result ?? "");
+    if (!match) {
+        return undefined;
+    }
+    const value = BigInt(match[0]);
+    return value === 0n ? undefined : value;
+}
+
+// Parse a C string summary from an evaluate result (`0x1234 "text"` or `"text"`).
+export function parseCString(result: string | undefined): string | undefined {
+    const match = /"((?:[^"\\]|\\.)*)"\s*$/.exec(result ?? "");
+    if (!match) {
+        return undefined;
+    }
+    try {
+        return JSON.parse(`"${match[1].replace(/\\'/g, "'")}"`) as string;
+    } catch {
+        return match[1];
+    }
+}
+
+// Read debuggee memory through LLDB; resolves with the bytes LLDB could read.
+export async function readNativeMemory(
+    lldbState: LldbState,
+    address: bigint,
+    count: number,
+): Promise<Buffer | undefined> {
+    const response = await requestFromLldb(lldbState, "readMemory", {
+        memoryReference: `0x${address.toString(16)}`,
+        count,
+    });
+    const data = response.body?.data as string | undefined;
+    return response.success && data !== undefined ? Buffer.from(data, "base64") : undefined;
+}
@@ -0,0 +1,392 @@
+import { DapMessage, DapRequest, DapResponse } from "./data_types";
+import { DebugpyState, LldbState, MemoryState, PythonBuffer, SessionState } from "./proxy_types";
+import { evaluatePython } from "./proxy_debugpy";
+import { readNativeMemory, requestFromLldb } from "./proxy_lldb";
+import { isLldbReady } from "./proxy_native_breakpoints";
+
+export type MemoryContext = {
+    session: SessionState;
+    debugpyState: DebugpyState;
+    lldbState: LldbState;
+    memoryState: MemoryState;
+    sendToClient: (message: DapMessage) => void;
+    forwardClientRequestToLldb: (request: DapRequest) => void;
+    // Run native reads while LLDB holds the process stopped (see proxy_native_view).
+    withNativeProcessStopped: <T>(read: () => Promise<T>) => Promise<T>;
+};
+
+// Memory references minted by the proxy for Python objects: "python:<frameId>:<expression>".
+const PYTHON_MEMORY_PREFIX = "python:";
+// Python types that expose their data through the buffer protocol.
+const PYTHON_BUFFER_TYPES = new Set(["ndarray", "bytes", "bytearray", "memoryview", "array"]);
+const PYTHON_REFERENCE_COMMANDS = new Set(["scopes", "variables", "evaluate"]);
+// PyTypeObject field offsets (64-bit): tp_name, tp_as_buffer and tp_base.
+const TP_NAME_OFFSET = 24;
+const TP_AS_BUFFER_OFFSET = 160;
+const TP_BASE_OFFSET = 256;
+const MAX_TYPE_NAME_BYTES = 128;
+// Base classes followed to find a buffer type with a known layout.
+const MAX_BASE_DEPTH = 8;
+// _Py_MEMORYVIEW_RELEASED, and _Py_MEMORYVIEW_C | _Py_MEMORYVIEW_FORTRAN.
+const MEMORYVIEW_RELEASED = 0x1;
+const MEMORYVIEW_CONTIGUOUS = 0x2 | 0x4;
+// NPY_ARRAY_C_CONTIGUOUS | NPY_ARRAY_F_CONTIGUOUS, and NPY_ARRAY_WRITEABLE.
+const NPY_ARRAY_CONTIGUOUS = 0x1 | 0x2;
+const NPY_ARRAY_WRITEABLE = 0x400;
+// Buffer types whose data pointer and size are read from their fields, by tp_name.
+const BUFFER_READERS = new Map<string, (context: MemoryContext, object: bigint) => Promise<PythonBuffer>>([
+    ["bytes", readBytesBuffer],
+    ["bytearray", readByteArrayBuffer],
+    ["memoryview", readMemoryViewBuffer],
+    ["array.array", readArrayBuffer],
+    ["numpy.ndarray", readNdarrayBuffer],
+]);
+
+export function createMemoryState(): MemoryState {
+    return { frameOfReference: new Map(), pendingFrames: new Map(), buffers: new Map() };
+}
+
+// Remember which Python frame a scopes/variables/evaluate request belongs to,
+// so buffer objects in its response can be given a memory reference.
+export function trackPythonReferenceRequest(context: MemoryContext, request: DapRequest): void {
+    const { memoryState } = context;
+    if (!PYTHON_REFERENCE_COMMANDS.has(request.command)) {
+        return;
+    }
+    const frameId = request.command === "variables"
+        ? memoryState.frameOfReference.get(request.arguments?.variablesReference as number)
+        : (request.arguments?.frameId as number | undefined);
+    if (typeof frameId === "number") {
+        memoryState.pendingFrames.set(request.seq, {
+            frameId,
+            expression: request.arguments?.expression as string | undefined,
+        });
+    }
+}
+
+// Add memory references to Python buffer objects in a debugpy response.
+// Steps:
+// 1) Look up the frame recorded for the client request.
+// 2) Record the frame of every returned variablesReference (children inherit it).
+// 3) Give buffer-typed values a "python:" memory reference, resolved on readMemory.
+export function annotatePythonReferences(
+    context: MemoryContext,
+    clientSeq: number,
+    response: DapResponse,
+): DapResponse {
+    const { memoryState } = context;
+    const pending = memoryState.pendingFrames.get(clientSeq);
+    memoryState.pendingFrames.delete(clientSeq);
+    if (!pending || !response.success || !response.body) {
+        return response;
+    }
+    const { frameId } = pending;
+    const body = response.body;
+    if (response.command === "scopes") {
+        for (const scope of (body.scopes as Array<Record<string, unknown>> | undefined) ?? []) {
+            rememberReference(memoryState, scope.variablesReference, frameId);
+        }
+        return response;
+    }
+    if (response.command === "variables") {
+        const variables = (body.variables as Array<Record<string, unknown>> | undefined) ?? [];
+        return {
+            ...response,
+            body: {
+                ...body,
+                variables: variables.map((variable) =>
+                    annotateValue(memoryState, frameId, variable, variable.evaluateName),
+                ),
+            },
+        };
+    }
+    if (response.command === "evaluate") {
+        return { ...response, body: annotateValue(memoryState, frameId, body, pending.expression) };
+    }
+    return response;
+}
+
+// Python variable references (and the buffers behind them) are only valid while
+// debugpy stays stopped.
+export function resetPythonReferences(context: MemoryContext): void {
+    context.memoryState.frameOfReference.clear();
+    context.memoryState.buffers.clear();
+}
+
+// Read memory for the Memory view.
+// Steps:
+// 1) "python:" references: resolve the object's buffer from interpreter memory
+//    and read within its bounds through LLDB while Python is stopped.
+// 2) Native references (pointers, variables of C++ frames): forward to LLDB.
+export function handleReadMemory(context: MemoryContext, request: DapRequest): void {
+    const reference = parsePythonMemoryReference(request.arguments?.memoryReference);
+    if (!reference) {
+        forwardNativeMemoryRequest(context, request);
+        return;
+    }
+    void readPythonBuffer(context, reference, request).then(
+        (body) => respond(context, request, body),
+        (error: Error) => respond(context, request, undefined, error.message),
+    );
+}
+
+// Write memory from the Memory view; Python buffers must be writable.
+export function handleWriteMemory(context: MemoryContext, request: DapRequest): void {
+    const reference = parsePythonMemoryReference(request.arguments?.memoryReference);
+    if (!reference) {
+        forwardNativeMemoryRequest(context, request);
+        return;
+    }
+    void writePythonBuffer(context, reference, request).then(
+        (body) => respond(context, request, body),
+        (error: Error) => respond(context, request, undefined, error.message),
+    );
+}
+
+function forwardNativeMemoryRequest(context: MemoryContext, request: DapRequest): void {
+    if (!isLldbReady(context)) {
+        respond(context, request, undefined, "LLDB is not attached; native memory is unavailable.");
+        return;
+    }
+    if (context.session.activeAdapter !== "lldb") {
+        // LLDB cannot read a process it is not stopped in.
+        respond(context, request, undefined, "Native memory can only be read while stopped in C/C++ code.");
+        return;
+    }
+    context.forwardClientRequestToLldb(request);
+}
+
+function rememberReference(memoryState: MemoryState, reference: unknown, frameId: number): void {
+    if (typeof reference === "number" && reference > 0) {
+        memoryState.frameOfReference.set(reference, frameId);
+    }
+}
+
+function annotateValue(
+    memoryState: MemoryState,
+    frameId: number,
+    value: Record<string, unknown>,
+    expression: unknown,
+): Record<string, unknown> {
+    rememberReference(memoryState, value.variablesReference, frameId);
+    if (
+        value.memoryReference !== undefined ||
+        typeof expression !== "string" ||
+        !PYTHON_BUFFER_TYPES.has(String(value.type))
+    ) {
+        return value;
+    }
+    return { ...value, memoryReference: `${PYTHON_MEMORY_PREFIX}${frameId}:${expression}` };
+}
+
+function parsePythonMemoryReference(
+    value: unknown,
+): { frameId: number; expression: string } | undefined {
+    const match = /^python:(\d+):(.+)$/s.exec(typeof value === "string" ? value : "");
+    return match ? { frameId: Number(match[1]), expression: match[2] } : undefined;
+}
+
+// Resolve a Python object's data pointer, size and writability. debugpy only
+// evaluates the expression to the object's address (`id`); the buffer fields are
+// read from interpreter memory through LLDB, which briefly stops the process.
+// The result is reused for later pages of the view.
+async function resolvePythonBuffer(
+    context: MemoryContext,
+    reference: { frameId: number; expression: string },
+): Promise<PythonBuffer> {
+    const key = `${reference.frameId}:${reference.expression}`;
+    const cached = context.memoryState.buffers.get(key);
+    if (cached) {
+        return cached;
+    }
+    if (!isLldbReady(context)) {
+        throw new Error("LLDB is not attached; Python buffers are read through LLDB.");
+    }
+    const evaluated = await evaluatePython(context.debugpyState, reference.frameId, `id(${reference.expression})`);
+    if (!/^\d+$/.test(evaluated.result ?? "")) {
+        const reason = evaluated.error ?? evaluated.result ?? "no result";
+        throw new Error(`Cannot resolve the buffer of ${reference.expression}: ${reason}`);
+    }
+    const object = BigInt(evaluated.result as string);
+    const buffer = await context.withNativeProcessStopped(() => readBufferFields(context, object));
+    context.memoryState.buffers.set(key, buffer);
+    return buffer;
+}
+
+// Find the buffer type of an object (its type or a base class, whose layout
+// subclasses keep) and read the data pointer and size from its fields.
+async function readBufferFields(context: MemoryContext, object: bigint): Promise<PythonBuffer> {
+    const header = await readFields(context, object, 16);
+    let typeAddress = header.readBigUInt64LE(8);
+    let typeName = "";
+    for (let depth = 0; depth < MAX_BASE_DEPTH && typeAddress !== 0n; depth += 1) {
+        const type = await readFields(context, typeAddress, TP_BASE_OFFSET + 8);
+        const name = await readCString(context, type.readBigUInt64LE(TP_NAME_OFFSET));
+        if (depth === 0) {
+            typeName = name;
+            if (type.readBigUInt64LE(TP_AS_BUFFER_OFFSET) === 0n) {
+                throw new Error(`${typeName} does not support the buffer protocol.`);
+            }
+        }
+        const reader = BUFFER_READERS.get(name);
+        if (reader) {
+            return reader(context, object);
+        }
+        typeAddress = type.readBigUInt64LE(TP_BASE_OFFSET);
+    }
+    throw new Error(`The buffer of a ${typeName} object cannot be located in memory.`);
+}
+
+// PyBytesObject: ob_size, then the cached hash and the inline data.
+async function readBytesBuffer(context: MemoryContext, object: bigint): Promise<PythonBuffer> {
+    const fields = await readFields(context, object, 24);
+    return { address: object + 32n, length: Number(fields.readBigInt64LE(16)), readonly: true };
+}
+
+// PyByteArrayObject: ob_size, ob_alloc, ob_bytes, ob_start (the first byte in use).
+async function readByteArrayBuffer(context: MemoryContext, object: bigint): Promise<PythonBuffer> {
+    const fields = await readFields(context, object, 48);
+    return { address: fields.readBigUInt64LE(40), length: Number(fields.readBigInt64LE(16)), readonly: false };
+}
+
+// PyMemoryViewObject: flags at 40 and the Py_buffer `view` at 56 (buf, obj, len,
+// itemsize, readonly).
+async function readMemoryViewBuffer(context: MemoryContext, object: bigint): Promise<PythonBuffer> {
+    const fields = await readFields(context, object, 92);
+    const flags = fields.readInt32LE(40);
+    if (flags & MEMORYVIEW_RELEASED) {
+        throw new Error("The memoryview is released.");
+    }
+    if (!(flags & MEMORYVIEW_CONTIGUOUS)) {
+        throw new Error("Non-contiguous memoryviews cannot be opened.");
+    }
+    return {
+        address: fields.readBigUInt64LE(56),
+        length: Number(fields.readBigInt64LE(72)),
+        readonly: fields.readInt32LE(88) !== 0,
+    };
+}
+
+// arrayobject: ob_size items at ob_item; the item size is in the type descriptor.
+async function readArrayBuffer(context: MemoryContext, object: bigint): Promise<PythonBuffer> {
+    const fields = await readFields(context, object, 48);
+    const descriptor = await readFields(context, fields.readBigUInt64LE(40), 8);
+    return {
+        address: fields.readBigUInt64LE(24),
+        length: Number(fields.readBigInt64LE(16)) * descriptor.readInt32LE(4),
+        readonly: false,
+    };
+}
+
+// PyArrayObject_fields: data, nd, dimensions, strides, base, descr, flags.
+async function readNdarrayBuffer(context: MemoryContext, object: bigint): Promise<PythonBuffer> {
+    const fields = await readFields(context, object, 68);
+    const flags = fields.readInt32LE(64);
+    if (!(flags & NPY_ARRAY_CONTIGUOUS)) {
+        throw new Error("Non-contiguous arrays cannot be opened.");
+    }
+    const dimensionCount = fields.readInt32LE(24);
+    const dimensions = dimensionCount > 0
+        ? await readFields(context, fields.readBigUInt64LE(32), dimensionCount * 8)
+        : Buffer.alloc(0);
+    let count = 1;
+    for (let index = 0; index < dimensionCount; index += 1) {
+        count *= Number(dimensions.readBigInt64LE(index * 8));
+    }
+    // PyArray_Descr.elsize: an int at 32 followed by the (non-zero) int alignment in
+    // NumPy 1.x; an npy_intp at 40 after the 64-bit flags (upper half unused) in 2.x.
+    const descriptor = await readFields(context, fields.readBigUInt64LE(56), 48);
+    const itemSize = descriptor.readInt32LE(36) > 0
+        ? descriptor.readInt32LE(32)
+        : Number(descriptor.readBigInt64LE(40));
+    return {
+        address: fields.readBigUInt64LE(16),
+        length: count * itemSize,
+        readonly: !(flags & NPY_ARRAY_WRITEABLE),
+    };
+}
+
+async function readFields(context: MemoryContext, address: bigint, size: number): Promise<Buffer> {
+    const data = address === 0n ? undefined : await readNativeMemory(context.lldbState, address, size);
+    if (!data || data.length < size) {
+        throw new Error(`Cannot read interpreter memory at 0x${address.toString(16)}.`);
+    }
+    return data;
+}
+
+async function readCString(context: MemoryContext, address: bigint): Promise<string> {
+    const data = address === 0n ? undefined : await readNativeMemory(context.lldbState, address, MAX_TYPE_NAME_BYTES);
+    const end = data?.indexOf(0) ?? -1;
+    if (!data || end < 0) {
+        throw new Error(`Cannot read a type name at 0x${address.toString(16)}.`);
+    }
+    return data.subarray(0, end).toString("utf8");
+}
+
+async function readPythonBuffer(
+    context: MemoryContext,
+    reference: { frameId: number; expression: string },
+    request: DapRequest,
+): Promise<Record<string, unknown>> {
+    const buffer = await resolvePythonBuffer(context, reference);
+    const offset = Number(request.arguments?.offset ?? 0);
+    const count = Number(request.arguments?.count ?? 0);
+    const address = `0x${(buffer.address + BigInt(offset)).toString(16)}`;
+    // Only bytes inside the object's buffer are read; the rest is reported unreadable.
+    const readable = offset >= 0 ? Math.max(0, Math.min(count, buffer.length - offset)) : 0;
+    if (buffer.address === 0n || readable === 0) {
+        return { address, unreadableBytes: count };
+    }
+    const data = await context.withNativeProcessStopped(() =>
+        readNativeMemory(context.lldbState, buffer.address + BigInt(offset), readable),
+    );
+    if (data === undefined) {
+        throw new Error(`Cannot read ${reference.expression} at ${address}.`);
+    }
+    return { address, data: data.toString("base64"), unreadableBytes: count - data.length };
+}
+
+async function writePythonBuffer(
+    context: MemoryContext,
+    reference: { frameId: number; expression: string },
+    request: DapRequest,
+): Promise<Record<string, unknown>> {
+    const buffer = await resolvePythonBuffer(context, reference);
+    if (buffer.readonly) {
+        throw new Error(`${reference.expression} is a read-only buffer.`);
+    }
+    const offset = Number(request.arguments?.offset ?? 0);
+    const data = Buffer.from(String(request.arguments?.data ?? ""), "base64");
+    const count = Math.min(data.length, buffer.length - offset);
+    if (offset < 0 || count <= 0 || (count < data.length && request.arguments?.allowPartial !== true)) {
+        throw new Error(`Write exceeds the ${buffer.length}-byte buffer of ${reference.expression}.`);
+    }
+    const written = await context.withNativeProcessStopped(() =>
+        requestFromLldb(context.lldbState, "writeMemory", {
+            memoryReference: `0x${(buffer.address + BigInt(offset)).toString(16)}`,
+            data: data.subarray(0, count).toString("base64"),
+        }),
+    );
+    if (!written.success) {
+        throw new Error(`Cannot write ${reference.expression}: ${written.message ?? "no message"}`);
+    }
+    return { bytesWritten: (written.body?.bytesWritten as number | undefined) ?? count };
+}
+
+function respond(
+    context: MemoryContext,
+    request: DapRequest,
+    body: Record<string, unknown> | undefined,
+    message?: string,
+): void {
+    const response: DapResponse = {
+        seq: context.session.clientSeq++,
+        type: "response",
+        request_seq: request.seq,
+        command: request.command,
+        success: message === undefined,
+        message,
+        body,
+    };
+    context.sendToClient(response);
+}
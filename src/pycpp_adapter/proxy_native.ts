@@ -0,0 +1,225 @@
+import * as net from "net";
+import * as path from "path";
+import * as vscode from "vscode";
+import * as utils from "./utils";
+import { DEFAULT_CPP_FILE_EXTENSIONS, normalizeExtensionList } from "../file_extensions";
+import { DapEvent, DapMessage, DapRequest, DapResponse, SourceBreakpoint } from "./data_types";
+import { PathMapper } from "./proxy_paths";
+
+// Build a native-only proxy session for a child process (followNativeChildren).
+// Steps:
+// 1) Spawn LLDB; there is no debugpy side for a native executable.
+// 2) Translate the client's attach into an LLDB attach to nativeProcessId.
+// 3) Forward everything else to LLDB, answering Python breakpoints as unverified.
+export function createNativeProxySession(
+    socket: net.Socket,
+    config: vscode.DebugConfiguration,
+    output: vscode.OutputChannel,
+): void {
+    const pid = Number(config.nativeProcessId);
+    const cppFileExtensions = new Set(
+        normalizeExtensionList(config.cppFileExtensions, DEFAULT_CPP_FILE_EXTENSIONS),
+    );
+    const pathMapper = new PathMapper(config.pathMappings, config.sourceMap);
+    const lldb = utils.spawnLldbAdapter(config, output);
+    let clientSeq = 1;
+    let lldbSeq = 1;
+    let clientClosed = false;
+    const pendingClientRequests = new Map<number, { clientSeq: number; command: string }>();
+    const internalRequests = new Set<number>();
+
+    const client = new utils.DapConnection(
+        socket,
+        socket,
+        (message) => handleClientMessage(message),
+        (error) => output.appendLine(`PYCPP client error: ${error.message}`),
+    );
+    const lldbConnection = lldb
+        ? new utils.DapConnection(
+            lldb.input,
+            lldb.output,
+            (message) => handleLldbMessage(message),
+            (error) => output.appendLine(`lldb adapter error: ${error.message}`),
+        )
+        : undefined;
+
+    lldb?.stderr?.on("data", (data) => {
+        output.appendLine(`[lldb] ${data.toString()}`);
+    });
+    lldb?.onExit((detail) => {
+        output.appendLine(`lldb adapter exited (${detail}).`);
+        sendToClient({ seq: clientSeq++, type: "event", event: "terminated" });
+        closeClient();
+    });
+    socket.on("close", () => {
+        clientClosed = true;
+        if (lldb && !lldb.isClosed()) {
+            lldb.close();
+        }
+    });
+    socket.on("error", (error) => {
+        output.appendLine(`PYCPP socket error: ${error.message}`);
+        clientClosed = true;
+        if (lldb && !lldb.isClosed()) {
+            lldb.close();
+        }
+    });
+
+    function handleClientMessage(message: DapMessage): void {
+        if (message.type !== "request") {
+            return;
+        }
+        if (!lldbConnection) {
+            respond(message, false, "LLDB adapter unavailable for native child session.");
+            return;
+        }
+
+        switch (message.command) {
+            case "attach": {
+                // The child is already running; attach LLDB by PID.
+                const initCommands = utils.buildLldbFormatterCommands(config);
+                forward({
+                    ...message,
+                    arguments: initCommands.length > 0 ? { pid, initCommands } : { pid },
+                });
+                output.appendLine(`LLDB attach requested for native child pid ${pid}.`);
+                return;
+            }
+            case "setBreakpoints": {
+                const sourcePath = utils.normalizeSourcePath(
+                    (message.arguments?.source as Record<string, unknown> | undefined)?.path as
+                        | string
+                        | undefined,
+                );
+                if (sourcePath && cppFileExtensions.has(path.extname(sourcePath).toLowerCase())) {
+                    forward(message);
+                    return;
+                }
+                // Python sources never run in a native child.
+                const breakpoints = (message.arguments?.breakpoints as Array<{ line: number }>) ?? [];
+                respond(message, true, undefined, {
+                    breakpoints: breakpoints.map((bp) => ({
+                        verified: false,
+                        line: bp.line,
+                        message: "Not a C/C++ source; ignored in native child session.",
+                    })),
+                });
+                return;
+            }
+            case "disconnect":
+            case "terminate": {
+                // Detach by default; the child belongs to the parent's program.
+                const terminateDebuggee = message.arguments?.terminateDebuggee === true;
+                forward({
+                    ...message,
+                    command: "disconnect",
+                    arguments: { ...(message.arguments ?? {}), terminateDebuggee },
+                }, message.command);
+                return;
+            }
+            default:
+                forward(message);
+                return;
+        }
+    }
+
+    function handleLldbMessage(message: DapMessage): void {
+        if (message.type !== "request") {
+            pathMapper.mapSources(message.body, "toClient");
+        }
+        if (message.type === "response") {
+            if (internalRequests.delete(message.request_seq)) {
+                return;
+            }
+            const pending = pendingClientRequests.get(message.request_seq);
+            if (!pending) {
+                return;
+            }
+            pendingClientRequests.delete(message.request_seq);
+            sendToClient({
+                ...message,
+                seq: clientSeq++,
+                request_seq: pending.clientSeq,
+                command: pending.command,
+            });
+            if (pending.command === "attach" && message.success) {
+                applyParentBreakpoints();
+            }
+            if (pending.command === "disconnect" || pending.command === "terminate") {
+                closeClient();
+            }
+            return;
+        }
+        if (message.type === "event") {
+            sendToClient({ ...message, seq: clientSeq++ } as DapEvent);
+        }
+    }
+
+    // Apply the parent's cached C++ breakpoints right after attach, before VS Code
+    // has sent its own setBreakpoints for this session.
+    function applyParentBreakpoints(): void {
+        const cached = Array.isArray(config.cppBreakpoints)
+            ? (config.cppBreakpoints as Array<{ path: string; breakpoints: SourceBreakpoint[] }>)
+            : [];
+        for (const entry of cached) {
+            const request: DapRequest = {
+                seq: lldbSeq++,
+                type: "request",
+                command: "setBreakpoints",
+                arguments: {
+                    source: { path: pathMapper.toAdapter(entry.path) },
+                    breakpoints: entry.breakpoints,
+                },
+            };
+            internalRequests.add(request.seq);
+            lldbConnection?.send(request);
+        }
+    }
+
+    function forward(request: DapRequest, responseCommand?: string): void {
+        const lldbRequest: DapRequest = {
+            ...request,
+            arguments: request.arguments ? structuredClone(request.arguments) : undefined,
+            seq: lldbSeq++,
+        };
+        pathMapper.mapSources(lldbRequest.arguments, "toAdapter");
+        pendingClientRequests.set(lldbRequest.seq, {
+            clientSeq: request.seq,
+            command: responseCommand ?? request.command,
+        });
+        lldbConnection?.send(lldbRequest);
+    }
+
+    function respond(
+        request: DapRequest,
+        success: boolean,
+        message?: string,
+        body?: Record<string, unknown>,
+    ): void {
+        const response: DapResponse = {
+            seq: clientSeq++,
+            type: "response",
+            request_seq: request.seq,
+            command: request.command,
+            success,
+            message,
+            body,
+        };
+        sendToClient(response);
+    }
+
+    function sendToClient(message: DapMessage): void {
+        if (clientClosed) {
+            return;
+        }
+        client.send(message);
+    }
+
+    function closeClient(): void {
+        if (clientClosed) {
+            return;
+        }
+        clientClosed = true;
+        socket.end();
+    }
+}
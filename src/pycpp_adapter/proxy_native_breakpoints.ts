@@ -0,0 +1,126 @@
+import { DapRequest, DapResponse } from "./data_types";
+import { BreakpointContext } from "./proxy_breakpoints";
+import { LldbState } from "./proxy_types";
+
+// Handle dataBreakpointInfo: only LLDB can watch memory.
+// Steps:
+// 1) Without an attached LLDB there is nothing to watch.
+// 2) Native variables (LLDB stop) and raw addresses go to LLDB.
+// 3) Python variables get a "not available" answer instead of a debugpy error.
+export function handleDataBreakpointInfo(context: BreakpointContext, request: DapRequest): void {
+    if (!isLldbReady(context)) {
+        respondDataBreakpointInfo(context, request, "LLDB is not attached; data breakpoints are unavailable.");
+        return;
+    }
+    if (context.session.activeAdapter === "lldb" || request.arguments?.asAddress === true) {
+        context.forwardClientRequestToLldb(request);
+        return;
+    }
+    respondDataBreakpointInfo(
+        context,
+        request,
+        "Data breakpoints are only available for C/C++ variables and memory addresses.",
+    );
+}
+
+// Handle setDataBreakpoints: the full watchpoint list always belongs to LLDB.
+export function handleSetDataBreakpoints(context: BreakpointContext, request: DapRequest): void {
+    setNativeOnlyBreakpoints(context, request, "dataBreakpointCache", "data breakpoint");
+}
+
+// Handle setInstructionBreakpoints: instruction addresses only exist in native frames.
+export function handleSetInstructionBreakpoints(context: BreakpointContext, request: DapRequest): void {
+    setNativeOnlyBreakpoints(
+        context,
+        request,
+        "instructionBreakpointCache",
+        "instruction breakpoint",
+    );
+}
+
+// Re-apply cached data and instruction breakpoints after LLDB attaches.
+export function refreshLldbNativeBreakpoints(context: BreakpointContext): void {
+    refreshCache(context, "setDataBreakpoints", context.breakpointState.dataBreakpointCache);
+    refreshCache(
+        context,
+        "setInstructionBreakpoints",
+        context.breakpointState.instructionBreakpointCache,
+    );
+}
+
+// Store and forward a breakpoint list that only LLDB can implement.
+// Steps:
+// 1) Cache the list so it survives until (and is re-applied after) attach.
+// 2) Forward to LLDB, or answer "pending" while LLDB is not attached.
+function setNativeOnlyBreakpoints(
+    context: BreakpointContext,
+    request: DapRequest,
+    cacheKey: "dataBreakpointCache" | "instructionBreakpointCache",
+    label: string,
+): void {
+    const breakpoints = (request.arguments?.breakpoints as Array<Record<string, unknown>>) ?? [];
+    context.breakpointState[cacheKey] = breakpoints.map((bp) => ({ ...bp }));
+    if (isLldbReady(context)) {
+        context.forwardClientRequestToLldb(request);
+        return;
+    }
+    const response: DapResponse = {
+        seq: context.session.clientSeq++,
+        type: "response",
+        request_seq: request.seq,
+        command: request.command,
+        success: true,
+        body: {
+            breakpoints: breakpoints.map(() => ({
+                verified: false,
+                message: context.lldbState.available
+                    ? `LLDB not attached yet; ${label} pending.`
+                    : `LLDB adapter unavailable for ${label}.`,
+            })),
+        },
+    };
+    context.sendToClient(response);
+}
+
+function refreshCache(
+    context: BreakpointContext,
+    command: string,
+    cached: Array<Record<string, unknown>>,
+): void {
+    const connection = context.lldbState.connection;
+    if (!connection || !context.lldbState.available || cached.length === 0) {
+        return;
+    }
+    const request: DapRequest = {
+        seq: context.lldbState.seq++,
+        type: "request",
+        command,
+        arguments: { breakpoints: cached },
+    };
+    context.lldbState.pendingRefreshEvents.add(request.seq);
+    connection.send(request);
+}
+
+export function isLldbReady(context: { lldbState: LldbState }): boolean {
+    return Boolean(
+        context.lldbState.connection &&
+            context.lldbState.available &&
+            context.lldbState.sessionStarted,
+    );
+}
+
+function respondDataBreakpointInfo(
+    context: BreakpointContext,
+    request: DapRequest,
+    description: string,
+): void {
+    const response: DapResponse = {
+        seq: context.session.clientSeq++,
+        type: "response",
+        request_seq: request.seq,
+        command: request.command,
+        success: true,
+        body: { dataId: null, description },
+    };
+    context.sendToClient(response);
+}
@@ -0,0 +1,411 @@
+import * as vscode from "vscode";
+import { DapMessage, DapRequest, DapResponse } from "./data_types";
+import {
+    AdapterName,
+    IdState,
+    LldbState,
+    NativePythonReference,
+    NativePythonState,
+    SessionState,
+    StackState,
+} from "./proxy_types";
+import { allocateProxyId } from "./proxy_ids";
+import { evaluateNative, parsePointer, readNativeMemory, requestFromLldb, runLldbCommand } from "./proxy_lldb";
+import { isInterpreterFunction } from "./proxy_stack";
+
+export type NativePythonContext = {
+    session: SessionState;
+    lldbState: LldbState;
+    idState: IdState;
+    stackState: StackState;
+    nativePythonState: NativePythonState;
+    output: vscode.OutputChannel;
+    sendToClient: (message: DapMessage) => void;
+};
+
+type PythonChild = { name: string; value: string; type: string; expression: string | null };
+type PythonResult = {
+    value?: string;
+    type?: string;
+    expandable?: boolean;
+    children?: PythonChild[];
+    error?: string;
+};
+
+// Bounds for what one evaluation returns.
+const MAX_CHILDREN = 100;
+const MAX_REPR_CHARS = 1000;
+const MAX_RESULT_BYTES = 1 << 20;
+const READ_CHUNK_BYTES = 4096;
+// Threads probed for the GIL holder, and native frames checked on the evaluating thread.
+const MAX_GIL_PROBE_THREADS = 64;
+const CHECKED_NATIVE_FRAMES = 8;
+// Interpreter code never returns while LLDB holds the process (microseconds).
+const EVALUATION_TIMEOUT_US = 3_000_000;
+// The thread is blocked taking the GIL; taking it again from there deadlocks.
+const GIL_WAIT_PATTERN = /^(take_gil|_?PyEval_RestoreThread|_?PyEval_AcquireThread|PyEval_AcquireLock|PyGILState_Ensure)\b/;
+// Allocator internals hold locks the interpreter needs.
+const ALLOCATOR_FRAME_PATTERN = /^(__libc_)?(malloc|calloc|realloc|free|_int_malloc|_int_free|_int_realloc|malloc_consolidate)\b/;
+// LLDB gave up on the expression (timeout, signal) and unwound it.
+const INTERRUPTED_PATTERN = /timed out|interrupted/i;
+// "frame #0: 0x... module`function(args) at file:line".
+const BACKTRACE_FRAME = /frame #\d+: 0x[0-9a-fA-F]+ (?:[^`\s]*`)?([^\s(]+)/g;
+
+// Evaluates the expression in the chosen Python frame of the evaluating thread and
+// stores a JSON description in `result`. `top` is the innermost Python frame of the
+// thread (missing when it has none; the expression then runs in `main`, the
+// __main__ dict). Nothing is imported: an import can wait on the import lock, which
+// another stopped thread may hold.
+const PYTHON_PROGRAM = `def encode(value):
+    if value is None or value is True or value is False:
+        return {None: 'null', True: 'true', False: 'false'}[value]
+    if isinstance(value, str):
+        return '"%s"' % ''.join('\\\\u%04x' % ord(c) if c < ' ' or c in '"\\\\' or '\\ud800' <= c <= '\\udfff' else c for c in value)
+    if isinstance(value, dict):
+        return '{%s}' % ','.join('%s:%s' % (encode(key), encode(item)) for key, item in value.items())
+    return '[%s]' % ','.join(encode(item) for item in value)
+
+def text(value):
+    try:
+        shown = repr(value)
+    except BaseException as error:
+        shown = '<repr failed: %s>' % type(error).__name__
+    return shown if len(shown) <= ${MAX_REPR_CHARS} else shown[:${MAX_REPR_CHARS}] + '...'
+
+def failure(error):
+    try:
+        detail = str(error)
+    except BaseException:
+        detail = ''
+    return {'error': '%s: %s' % (type(error).__name__, detail) if detail else type(error).__name__}
+
+def expandable(value):
+    if isinstance(value, (dict, list, tuple, set, frozenset)):
+        return len(value) > 0
+    attributes = getattr(value, '__dict__', None)
+    return isinstance(attributes, dict) and len(attributes) > 0
+
+def items(value, expression):
+    if isinstance(value, dict):
+        keys = list(value)[:${MAX_CHILDREN}]
+        literal = (str, int, float, bytes, type(None))
+        return [(text(key), value[key], '(%s)[%r]' % (expression, key) if isinstance(key, literal) else None) for key in keys]
+    if isinstance(value, (list, tuple)):
+        return [('[%d]' % index, child, '(%s)[%d]' % (expression, index)) for index, child in enumerate(value[:${MAX_CHILDREN}])]
+    if isinstance(value, (set, frozenset)):
+        return [('<%d>' % index, child, None) for index, child in enumerate(list(value)[:${MAX_CHILDREN}])]
+    attributes = getattr(value, '__dict__', None)
+    if isinstance(attributes, dict):
+        return [(name, child, '(%s).%s' % (expression, name)) for name, child in list(attributes.items())[:${MAX_CHILDREN}] if isinstance(name, str) and name.isidentifier()]
+    return []
+
+def describe(value, expression, expand):
+    result = {'value': text(value), 'type': type(value).__name__, 'expandable': expandable(value)}
+    if expand:
+        result['children'] = [
+            {'name': name, 'value': text(child), 'type': type(child).__name__,
+             'expression': child_expression if child_expression and expandable(child) else None}
+            for name, child, child_expression in items(value, expression)]
+    return result
+
+def run(source, depth, expand):
+    frame = globals().get('top')
+    for _ in range(depth):
+        frame = frame.f_back if frame is not None else None
+    if frame is None and depth > 0:
+        return {'error': 'The Python frame is no longer on this thread.'}
+    scope = (frame.f_globals, frame.f_locals) if frame is not None else (main, main)
+    try:
+        value = eval(compile(source, '<native stop>', 'eval'), *scope)
+        return describe(value, source, expand)
+    except BaseException as error:
+        return failure(error)
+`;
+
+export function createNativePythonState(): NativePythonState {
+    return { references: new Map() };
+}
+
+// Values are only valid while LLDB stays stopped.
+export function resetNativePython(context: NativePythonContext): void {
+    context.nativePythonState.references.clear();
+}
+
+// Answer evaluate requests on synthesized Python frames (debugpy is frozen while
+// LLDB holds the process) and variables requests on values evaluated that way.
+// Hover evaluation is left out: each one runs interpreter code in the stopped process.
+export function handleNativePythonRequest(context: NativePythonContext, request: DapRequest): boolean {
+    const args = request.arguments ?? {};
+    const respond = (success: boolean, body?: Record<string, unknown>, message?: string): void => {
+        const response: DapResponse = {
+            seq: context.session.clientSeq++,
+            type: "response",
+            request_seq: request.seq,
+            command: request.command,
+            success,
+            message,
+            body,
+        };
+        context.sendToClient(response);
+    };
+    if (request.command === "variables") {
+        const reference = context.nativePythonState.references.get(args.variablesReference as number);
+        if (!reference) {
+            return false;
+        }
+        void readPythonChildren(context, reference).then(
+            (variables) => respond(true, { variables }),
+            (error: Error) => respond(false, undefined, error.message),
+        );
+        return true;
+    }
+    const frameId = args.frameId as number | undefined;
+    if (
+        request.command !== "evaluate" ||
+        args.context === "hover" ||
+        frameId === undefined ||
+        !context.stackState.pythonFrames.has(frameId)
+    ) {
+        return false;
+    }
+    void evaluatePythonInNativeStop(context, String(args.expression ?? ""), frameId).then(
+        (body) => respond(true, body),
+        (error: Error) => respond(false, undefined, error.message),
+    );
+    return true;
+}
+
+// Evaluate a Python expression while LLDB holds the process stopped.
+// Steps:
+// 1) Find the LLDB thread and Python frame depth: a synthesized Python frame, the
+//    innermost Python frame behind an LLDB frame, or the selected thread.
+// 2) Refuse when running interpreter code is unsafe (see checkEvaluationSafety).
+// 3) Run the expression with PyRun_String on that thread and read the JSON
+//    description it returns.
+// 4) Expandable results get proxy references that re-evaluate their children.
+export async function evaluatePythonInNativeStop(
+    context: NativePythonContext,
+    expression: string,
+    frameId: number | undefined,
+    owner?: AdapterName,
+): Promise<Record<string, unknown>> {
+    const target = await resolveTarget(context, frameId, owner);
+    const result = await runPython(context, { ...target, expression }, false);
+    if (result.error !== undefined) {
+        throw new Error(result.error);
+    }
+    return {
+        result: result.value ?? "",
+        type: result.type,
+        variablesReference: result.expandable
+            ? allocateReference(context, { ...target, expression })
+            : 0,
+    };
+}
+
+async function resolveTarget(
+    context: NativePythonContext,
+    frameId: number | undefined,
+    owner: AdapterName | undefined,
+): Promise<{ frameId?: number; depth: number }> {
+    // A frame id with an owner is the adapter's own, never a synthesized Python frame.
+    const pythonFrame = frameId === undefined || owner ? undefined : context.stackState.pythonFrames.get(frameId);
+    if (frameId !== undefined && pythonFrame) {
+        // Python frame ids are allocated innermost-first per thread.
+        const depth = [...context.stackState.pythonFrames]
+            .filter(([id, frame]) => frame.threadId === pythonFrame.threadId && id < frameId).length;
+        const trace = await requestFromLldb(context.lldbState, "stackTrace", {
+            threadId: pythonFrame.threadId,
+            levels: 1,
+        });
+        const top = (trace.body?.stackFrames as Array<{ id: number }> | undefined)?.[0];
+        if (!top) {
+            throw new Error("The thread of this Python frame is no longer stopped.");
+        }
+        return { frameId: top.id, depth };
+    }
+    return { frameId: owner === "lldb" ? frameId : undefined, depth: 0 };
+}
+
+// Interpreter code may only run on a thread that holds the GIL and is not stopped
+// inside the interpreter or allocator.
+async function checkEvaluationSafety(context: NativePythonContext, frameId: number | undefined): Promise<void> {
+    const state = await evaluateNative(
+        context.lldbState,
+        frameId,
+        "(int)Py_IsInitialized() ? (int)PyGILState_Check() : -1",
+    );
+    if (state.error !== undefined) {
+        throw new Error(`Python is not loaded in the stopped process (${state.error}).`);
+    }
+    const holdsGil = parseInteger(state.result);
+    if (holdsGil === -1) {
+        throw new Error("The Python interpreter is not initialized.");
+    }
+
+    const backtrace = await runLldbCommand(context.lldbState, frameId, `thread backtrace -c ${CHECKED_NATIVE_FRAMES}`);
+    const functions = [...(backtrace.result ?? "").matchAll(BACKTRACE_FRAME)].map((match) => match[1]);
+    const waiting = functions.find((name) => GIL_WAIT_PATTERN.test(name));
+    if (waiting) {
+        throw new Error(`Python cannot be evaluated: the thread is waiting for the GIL (${waiting}).`);
+    }
+    if (functions.length > 0 && ALLOCATOR_FRAME_PATTERN.test(functions[0])) {
+        throw new Error(`Python cannot be evaluated: the thread is stopped inside the allocator (${functions[0]}).`);
+    }
+    if (holdsGil !== 1) {
+        // Taking the GIL here is not safe: an evaluation cut off by the timeout
+        // would never release it.
+        const holder = await findGilHolder(context);
+        throw new Error(
+            holder !== undefined
+                ? `Python cannot be evaluated on this thread: ${holder} holds the GIL. ` +
+                      "Select a frame of that thread to evaluate there."
+                : "Python cannot be evaluated: no thread holds the GIL. Stop in code that holds it to evaluate Python.",
+        );
+    }
+    if (functions.length > 0 && isInterpreterFunction(functions[0])) {
+        throw new Error(
+            `Python cannot be evaluated: the thread is stopped inside the interpreter (${functions[0]}). ` +
+                "Stop in C/C++ code to evaluate Python.",
+        );
+    }
+}
+
+async function findGilHolder(context: NativePythonContext): Promise<string | undefined> {
+    const response = await requestFromLldb(context.lldbState, "threads");
+    const threads = (response.body?.threads as Array<{ id: number; name?: string }> | undefined) ?? [];
+    for (const thread of threads.slice(0, MAX_GIL_PROBE_THREADS)) {
+        const trace = await requestFromLldb(context.lldbState, "stackTrace", { threadId: thread.id, levels: 1 });
+        const top = (trace.body?.stackFrames as Array<{ id: number }> | undefined)?.[0];
+        if (!top) {
+            continue;
+        }
+        const check = await evaluateNative(context.lldbState, top.id, "(int)PyGILState_Check()");
+        if (parseInteger(check.result) === 1) {
+            return thread.name ? `thread "${thread.name}"` : `thread ${thread.id}`;
+        }
+    }
+    return undefined;
+}
+
+async function runPython(
+    context: NativePythonContext,
+    reference: NativePythonReference,
+    expand: boolean,
+): Promise<PythonResult> {
+    await checkEvaluationSafety(context, reference.frameId);
+    const program = `${PYTHON_PROGRAM}\nresult = encode(run(${JSON.stringify(reference.expression)}, ` +
+        `${reference.depth}, ${expand ? "True" : "False"}))\n`;
+    const output = await runLldbCommand(
+        context.lldbState,
+        reference.frameId,
+        "expression --all-threads false --unwind-on-error true --ignore-breakpoints true " +
+            `--timeout ${EVALUATION_TIMEOUT_US} -- ${buildRunExpression(program)}`,
+    );
+    const text = output.result ?? "";
+    const pointer = output.error === undefined && !/\berror:/.test(text) ? parsePointer(text) : undefined;
+    if (pointer === undefined) {
+        const detail = output.error ?? /\berror:\s*(.*)/.exec(text)?.[1];
+        context.output.appendLine(`[proxy] Python evaluation through LLDB failed: ${detail ?? text}`);
+        if (detail && INTERRUPTED_PATTERN.test(detail)) {
+            // LLDB unwound the call in the middle of the interpreter.
+            throw new Error(
+                `Python evaluation was interrupted (${detail}). The interpreter state of this thread may be ` +
+                    "inconsistent; resuming the process is unsafe.",
+            );
+        }
+        throw new Error(`Python evaluation failed${detail ? `: ${detail}` : "."}`);
+    }
+    try {
+        const json = await readResultString(context, pointer);
+        return JSON.parse(json) as PythonResult;
+    } finally {
+        await evaluateNative(context.lldbState, reference.frameId, `(void)free((void*)0x${pointer.toString(16)})`);
+    }
+}
+
+// Build a C expression that runs the program in a fresh dict and returns a malloc'd
+// copy of its `result` (NULL when the interpreter raised). The dict gets the
+// builtins, the __main__ dict as `main` and the thread's innermost Python frame as
+// `top`. A pending Python error of the stopped thread is saved and restored
+// around the call (PyErr_Restore also drops any error the call left).
+function buildRunExpression(program: string): string {
+    return [
+        "void *__et = (void*)0; void *__ev = (void*)0; void *__eb = (void*)0;",
+        "(void)PyErr_Fetch(&__et, &__ev, &__eb);",
+        "void *__m = (void*)PyImport_AddModule(\"__main__\");",
+        "void *__f = (void*)PyEval_GetFrame();",
+        "void *__d = __m ? (void*)PyDict_New() : (void*)0;",
+        "if (__d) (void)PyDict_SetItemString(__d, \"__builtins__\", (void*)PyEval_GetBuiltins());",
+        "if (__d) (void)PyDict_SetItemString(__d, \"main\", (void*)PyModule_GetDict(__m));",
+        "if (__d && __f) (void)PyDict_SetItemString(__d, \"top\", __f);",
+        // 257 is Py_file_input.
+        `void *__r = __d ? (void*)PyRun_StringFlags(${cStringLiteral(program)}, 257, __d, __d, (void*)0) : (void*)0;`,
+        "void *__v = __r ? (void*)PyDict_GetItemString(__d, \"result\") : (void*)0;",
+        "const char *__s = __v ? (const char*)PyUnicode_AsUTF8(__v) : (const char*)0;",
+        "char *__c = __s ? (char*)strdup(__s) : (char*)0;",
+        "if (__r) (void)Py_DecRef(__r);",
+        "if (__d) (void)Py_DecRef(__d);",
+        "(void)PyErr_Restore(__et, __ev, __eb);",
+        "(void*)__c",
+    ].join(" ");
+}
+
+// A C string literal of the UTF-8 bytes of `text`. Anything but plain printable
+// ASCII is an octal escape, which keeps the LLDB command on one line.
+function cStringLiteral(text: string): string {
+    let literal = "";
+    for (const byte of Buffer.from(text, "utf8")) {
+        const char = String.fromCharCode(byte);
+        literal += byte >= 0x20 && byte < 0x7f && !"\"\\`?".includes(char)
+            ? char
+            : `\\${byte.toString(8).padStart(3, "0")}`;
+    }
+    return `"${literal}"`;
+}
+
+async function readResultString(context: NativePythonContext, address: bigint): Promise<string> {
+    const chunks: Buffer[] = [];
+    for (let offset = 0; offset < MAX_RESULT_BYTES; offset += READ_CHUNK_BYTES) {
+        const chunk = await readNativeMemory(context.lldbState, address + BigInt(offset), READ_CHUNK_BYTES);
+        if (!chunk || chunk.length === 0) {
+            break;
+        }
+        const end = chunk.indexOf(0);
+        chunks.push(end >= 0 ? chunk.subarray(0, end) : chunk);
+        if (end >= 0) {
+            return Buffer.concat(chunks).toString("utf8");
+        }
+    }
+    throw new Error("The Python evaluation result could not be read.");
+}
+
+async function readPythonChildren(
+    context: NativePythonContext,
+    reference: NativePythonReference,
+): Promise<Array<Record<string, unknown>>> {
+    const result = await runPython(context, reference, true);
+    if (result.error !== undefined) {
+        throw new Error(result.error);
+    }
+    return (result.children ?? []).map((child) => ({
+        name: child.name,
+        value: child.value,
+        type: child.type,
+        evaluateName: child.expression ?? undefined,
+        variablesReference: child.expression
+            ? allocateReference(context, { ...reference, expression: child.expression })
+            : 0,
+    }));
+}
+
+function allocateReference(context: NativePythonContext, reference: NativePythonReference): number {
+    const id = allocateProxyId(context.idState, "variables");
+    context.nativePythonState.references.set(id, reference);
+    return id;
+}
+
+function parseInteger(result: string | undefined): number | undefined {
+    const match = /(-?\d+)\s*$/.exec(result ?? "");
+    return match ? Number(match[1]) : undefined;
+}
@@ -0,0 +1,422 @@
+import * as vscode from "vscode";
+import { DapEvent, DapMessage, DapRequest, DapResponse } from "./data_types";
+import {
+    DebugpyState,
+    IdState,
+    LldbState,
+    MemoryState,
+    NativeInstance,
+    NativeViewReference,
+    NativeViewState,
+    PythonObjectRef,
+    RunState,
+    SessionState,
+} from "./proxy_types";
+import { evaluatePython, parsePythonStr } from "./proxy_debugpy";
+import { allocateProxyId } from "./proxy_ids";
+import { evaluateNative, parsePointer, requestFromLldb, runLldbCommand } from "./proxy_lldb";
+import { isLldbReady } from "./proxy_native_breakpoints";
+
+export type NativeViewContext = {
+    session: SessionState;
+    debugpyState: DebugpyState;
+    lldbState: LldbState;
+    idState: IdState;
+    memoryState: MemoryState;
+    runState: RunState;
+    nativeViewState: NativeViewState;
+    output: vscode.OutputChannel;
+    sendToClient: (message: DapMessage) => void;
+};
+
+const NATIVE_VIEW_NAME = "[native]";
+// How long the process may take to stop for a native read.
+const NATIVE_STOP_TIMEOUT_MS = 2000;
+// debugpy value types that never wrap a C++ instance.
+const PLAIN_PYTHON_TYPES = new Set([
+    "NoneType", "bool", "int", "float", "complex", "str", "bytes", "bytearray", "memoryview",
+    "list", "tuple", "dict", "set", "frozenset", "range", "slice", "type", "module", "function",
+    "method", "builtin_function_or_method", "generator", "coroutine", "frame", "code", "ndarray",
+]);
+const IDENTIFIER = /^[A-Za-z_]\w*$/;
+
+// The C++ instance held by a pybind11 or nanobind object, read with ctypes:
+// - pybind11 `instance`: the value pointer is stored inline (simple layout, flag
+//   bit 1 after the 3-pointer holder union and the weakrefs pointer) or is the
+//   first entry of the values-and-holders array.
+// - nanobind `nb_inst`: data lives at a 32-bit offset from the object, inline when
+//   the `direct` bit is set, otherwise behind a pointer.
+// Evaluates to JSON [binding, address, Python type name], or null.
+function nativeInstanceExpression(expression: string): string {
+    return "__import__('json').dumps((lambda c, o: (lambda t, m, p, a: " +
+        "['pybind11', (lambda h: h if c.c_uint8.from_address(a + 6 * p).value & 2 " +
+        "else (h and c.c_void_p.from_address(h).value))(c.c_void_p.from_address(a + 2 * p).value), " +
+        "t.__name__] if m == 'pybind11_type' else " +
+        "['nanobind', (lambda d: d if c.c_uint32.from_address(a + 2 * p + 4).value & 4 " +
+        "else c.c_void_p.from_address(d).value)(a + c.c_int32.from_address(a + 2 * p).value), " +
+        "t.__name__] if m.startswith('nb_type') else None)" +
+        "(type(o), type(type(o)).__name__, c.sizeof(c.c_void_p), id(o)))" +
+        `(__import__('ctypes'), (${expression})))`;
+}
+
+export function createNativeViewState(): NativeViewState {
+    return {
+        pendingRequests: new Map(),
+        objects: new Map(),
+        instances: new Map(),
+        references: new Map(),
+        queue: Promise.resolve(),
+    };
+}
+
+// Remember the frame and expression of a variables/evaluate request to debugpy,
+// so the Python objects in its response can be found again.
+export function trackNativeViewRequest(context: NativeViewContext, request: DapRequest): void {
+    const { nativeViewState, memoryState } = context;
+    if (request.command === "variables") {
+        const variablesReference = request.arguments?.variablesReference as number | undefined;
+        const frameId = variablesReference === undefined
+            ? undefined
+            : memoryState.frameOfReference.get(variablesReference);
+        if (frameId !== undefined && request.arguments?.filter !== "indexed") {
+            nativeViewState.pendingRequests.set(request.seq, { frameId, variablesReference });
+        }
+    } else if (request.command === "evaluate") {
+        const frameId = request.arguments?.frameId as number | undefined;
+        const expression = request.arguments?.expression as string | undefined;
+        if (frameId !== undefined && expression) {
+            nativeViewState.pendingRequests.set(request.seq, { frameId, expression });
+        }
+    }
+}
+
+// Add a "[native]" child to a debugpy variables response when the expanded
+// object wraps a C++ instance (pybind11 or nanobind).
+// Steps:
+// 1) Record the expression of every returned object that may wrap a C++ instance.
+// 2) For the expanded object, read the wrapped instance address in the paused
+//    Python process.
+// 3) Translate the response with `toClient`, then prepend a child whose
+//    variablesReference is resolved through LLDB.
+export async function addNativeViewChild(
+    context: NativeViewContext,
+    clientSeq: number,
+    response: DapResponse,
+    toClient: (response: DapResponse) => DapResponse,
+): Promise<DapResponse> {
+    const { nativeViewState } = context;
+    const pending = nativeViewState.pendingRequests.get(clientSeq);
+    nativeViewState.pendingRequests.delete(clientSeq);
+    if (!pending || !response.success || !response.body) {
+        return toClient(response);
+    }
+    if (response.command === "evaluate") {
+        rememberObject(context, response.body, { frameId: pending.frameId, expression: pending.expression ?? "" });
+        return toClient(response);
+    }
+    const variables = (response.body.variables as Array<Record<string, unknown>> | undefined) ?? [];
+    for (const variable of variables) {
+        if (typeof variable.evaluateName === "string") {
+            rememberObject(context, variable, { frameId: pending.frameId, expression: variable.evaluateName });
+        }
+    }
+    const object = pending.variablesReference === undefined
+        ? undefined
+        : nativeViewState.objects.get(pending.variablesReference);
+    if (!object || !isLldbReady(context)) {
+        return toClient(response);
+    }
+    const instance = await findNativeInstance(context, object);
+    const translated = toClient(response);
+    if (!instance) {
+        return translated;
+    }
+    const child = {
+        name: NATIVE_VIEW_NAME,
+        value: `${instance.pythonType} @ ${instance.address}`,
+        variablesReference: allocateReference(context, { instance }),
+        presentationHint: { kind: "virtual" },
+    };
+    const translatedVariables = (translated.body?.variables as Array<Record<string, unknown>> | undefined) ?? [];
+    return { ...translated, body: { ...translated.body, variables: [child, ...translatedVariables] } };
+}
+
+// Expand a "[native]" child or one of its members.
+// Steps:
+// 1) Stop the process through LLDB without telling the client (Python stays stopped).
+// 2) Resolve the C++ type of the instance once (Python class name, then vtable).
+// 3) Evaluate the instance or member in LLDB and list its children.
+// 4) Resume LLDB; its references are replaced by expressions the proxy re-evaluates.
+export function handleNativeViewVariables(context: NativeViewContext, request: DapRequest): boolean {
+    const reference = request.arguments?.variablesReference as number | undefined;
+    const entry = reference === undefined ? undefined : context.nativeViewState.references.get(reference);
+    if (request.command !== "variables" || !entry) {
+        return false;
+    }
+    const respond = (success: boolean, body?: Record<string, unknown>, message?: string): void => {
+        const response: DapResponse = {
+            seq: context.session.clientSeq++,
+            type: "response",
+            request_seq: request.seq,
+            command: request.command,
+            success,
+            message,
+            body,
+        };
+        context.sendToClient(response);
+    };
+    void withNativeProcessStopped(context, () => readNativeChildren(context, entry, request)).then(
+        (variables) => respond(true, { variables }),
+        (error: Error) => respond(false, undefined, error.message),
+    );
+    return true;
+}
+
+// LLDB events caused by a native read are not shown to the client.
+// A stop for another reason (a C++ breakpoint hit meanwhile) ends the wait and is
+// handled as usual; the read then finds LLDB stopped.
+export function handleNativeViewEvent(context: NativeViewContext, event: DapEvent): boolean {
+    const { nativeViewState } = context;
+    if (event.event === "stopped" && nativeViewState.awaitingStop) {
+        const awaitingStop = nativeViewState.awaitingStop;
+        nativeViewState.awaitingStop = undefined;
+        awaitingStop(event);
+        return event.body?.reason === "pause";
+    }
+    if (event.event === "continued" && nativeViewState.silentContinue) {
+        return true;
+    }
+    return false;
+}
+
+// Evaluate a C/C++ expression or run an LLDB command while Python is stopped
+// (cpp:/lldb: console input). Expression results expand like "[native]" members.
+export function evaluateInNativeView(
+    context: NativeViewContext,
+    input: string,
+    isCommand: boolean,
+): Promise<Record<string, unknown>> {
+    return withNativeProcessStopped(context, async () => {
+        if (isCommand) {
+            const output = await runLldbCommand(context.lldbState, undefined, input);
+            if (output.error !== undefined) {
+                throw new Error(output.error);
+            }
+            return { result: output.result ?? "", variablesReference: 0 };
+        }
+        const evaluated = await evaluateNative(context.lldbState, undefined, input);
+        if (evaluated.error !== undefined) {
+            throw new Error(evaluated.error);
+        }
+        return {
+            result: evaluated.result ?? "",
+            variablesReference: evaluated.variablesReference
+                ? allocateReference(context, { expression: input })
+                : 0,
+        };
+    });
+}
+
+// Python objects, their instances and "[native]" references are only valid while
+// debugpy stays stopped.
+export function resetNativeView(context: NativeViewContext): void {
+    const { nativeViewState } = context;
+    nativeViewState.objects.clear();
+    nativeViewState.instances.clear();
+    nativeViewState.references.clear();
+}
+
+function rememberObject(
+    context: NativeViewContext,
+    value: Record<string, unknown>,
+    object: PythonObjectRef,
+): void {
+    const reference = value.variablesReference;
+    if (
+        typeof reference === "number" &&
+        reference > 0 &&
+        object.expression &&
+        !PLAIN_PYTHON_TYPES.has(String(value.type))
+    ) {
+        context.nativeViewState.objects.set(reference, object);
+    }
+}
+
+function allocateReference(context: NativeViewContext, entry: NativeViewReference): number {
+    const reference = allocateProxyId(context.idState, "variables");
+    context.nativeViewState.references.set(reference, entry);
+    return reference;
+}
+
+async function findNativeInstance(
+    context: NativeViewContext,
+    object: PythonObjectRef,
+): Promise<NativeInstance | undefined> {
+    const { nativeViewState } = context;
+    const key = `${object.frameId}:${object.expression}`;
+    if (nativeViewState.instances.has(key)) {
+        return nativeViewState.instances.get(key) ?? undefined;
+    }
+    const evaluated = await evaluatePython(
+        context.debugpyState,
+        object.frameId,
+        nativeInstanceExpression(object.expression),
+    );
+    let instance: NativeInstance | null = null;
+    try {
+        const parsed = JSON.parse(parsePythonStr(evaluated.result) ?? "null") as
+            | [string, number | null, string]
+            | null;
+        if (parsed && typeof parsed[1] === "number" && parsed[1] !== 0) {
+            instance = { address: `0x${parsed[1].toString(16)}`, pythonType: parsed[2] };
+        }
+    } catch {
+        instance = null;
+    }
+    nativeViewState.instances.set(key, instance);
+    return instance ?? undefined;
+}
+
+// Run `read` while LLDB holds the process stopped, one read at a time (also
+// used by the Memory view for Python buffers).
+export function withNativeProcessStopped<T>(context: NativeViewContext, read: () => Promise<T>): Promise<T> {
+    const { nativeViewState } = context;
+    const run = nativeViewState.queue.then(() => stopAndRead(context, read));
+    nativeViewState.queue = run.then(
+        () => undefined,
+        () => undefined,
+    );
+    return run;
+}
+
+async function stopAndRead<T>(context: NativeViewContext, read: () => Promise<T>): Promise<T> {
+    const { nativeViewState, lldbState } = context;
+    if (context.runState.lldb.state === "stopped") {
+        return read();
+    }
+    if (context.runState.debugpy.state !== "stopped") {
+        throw new Error("Native fields can only be read while the program is stopped.");
+    }
+    const stopped = new Promise<DapEvent | undefined>((resolve) => {
+        const timer = setTimeout(() => {
+            nativeViewState.awaitingStop = undefined;
+            resolve(undefined);
+        }, NATIVE_STOP_TIMEOUT_MS);
+        nativeViewState.awaitingStop = (event) => {
+            clearTimeout(timer);
+            resolve(event);
+        };
+    });
+    const pause = await requestFromLldb(lldbState, "pause", { threadId: context.session.debuggeePid });
+    if (!pause.success) {
+        nativeViewState.awaitingStop = undefined;
+        throw new Error(`LLDB could not stop the process: ${pause.message ?? "no message"}`);
+    }
+    const event = await stopped;
+    if (!event) {
+        throw new Error("LLDB did not stop the process in time.");
+    }
+    if (event.body?.reason !== "pause") {
+        // A real native stop: it is shown to the user and stays stopped.
+        return read();
+    }
+    try {
+        return await read();
+    } finally {
+        // Not every LLDB adapter sends a continued event, so the response ends the resume.
+        nativeViewState.silentContinue = true;
+        const resumed = await requestFromLldb(lldbState, "continue", { threadId: event.body?.threadId });
+        nativeViewState.silentContinue = false;
+        if (!resumed.success) {
+            context.output.appendLine(
+                `[proxy] LLDB did not resume after a native read: ${resumed.message ?? "no message"}`,
+            );
+        }
+    }
+}
+
+async function readNativeChildren(
+    context: NativeViewContext,
+    entry: NativeViewReference,
+    request: DapRequest,
+): Promise<Array<Record<string, unknown>>> {
+    const expression = entry.expression ?? (entry.instance && await resolveInstanceExpression(context, entry));
+    if (!expression) {
+        throw new Error("Nothing to show for this native value.");
+    }
+    const evaluated = await evaluateNative(context.lldbState, undefined, expression);
+    if (evaluated.error !== undefined || !evaluated.variablesReference) {
+        throw new Error(`Cannot evaluate ${expression}: ${evaluated.error ?? "no members"}`);
+    }
+    const response = await requestFromLldb(context.lldbState, "variables", {
+        variablesReference: evaluated.variablesReference,
+        filter: request.arguments?.filter,
+        start: request.arguments?.start,
+        count: request.arguments?.count,
+    });
+    if (!response.success) {
+        throw new Error(response.message ?? "LLDB could not list the members.");
+    }
+    const children = (response.body?.variables as Array<Record<string, unknown>> | undefined) ?? [];
+    return children.map((child) => {
+        // LLDB references end when LLDB resumes; members are re-evaluated by expression.
+        // Members keep no evaluateName or memoryReference: they are not Python expressions
+        // and native memory cannot be read while Python is stopped.
+        const reference = child.variablesReference;
+        const childExpression = memberExpression(expression, child);
+        return {
+            name: child.name,
+            value: child.value,
+            type: child.type,
+            presentationHint: child.presentationHint,
+            indexedVariables: child.indexedVariables,
+            namedVariables: child.namedVariables,
+            variablesReference: typeof reference === "number" && reference > 0 && childExpression
+                ? allocateReference(context, { expression: childExpression })
+                : 0,
+        };
+    });
+}
+
+// LLDB's expression for a member, or `parent.member` when it gives none.
+// CodeLLDB marks native expressions with "/nat"; evaluateNative adds it back.
+function memberExpression(parent: string, child: Record<string, unknown>): string | undefined {
+    if (typeof child.evaluateName === "string" && child.evaluateName) {
+        return child.evaluateName.replace(/^\/nat\s+/, "");
+    }
+    const name = String(child.name);
+    return IDENTIFIER.test(name) ? `(${parent}).${name}` : undefined;
+}
+
+// The C++ type of a wrapped instance.
+// Steps:
+// 1) Look up a type named like the Python class (the usual binding convention).
+// 2) Otherwise, for polymorphic classes, name the vtable the object points to.
+async function resolveInstanceExpression(
+    context: NativeViewContext,
+    entry: NativeViewReference,
+): Promise<string> {
+    const instance = entry.instance as NativeInstance;
+    let typeName: string | undefined;
+    if (IDENTIFIER.test(instance.pythonType)) {
+        const lookup = await runLldbCommand(context.lldbState, undefined, `image lookup -t ${instance.pythonType}`);
+        typeName = /name = "([^"]+)"/.exec(lookup.result ?? "")?.[1];
+    }
+    if (!typeName) {
+        const vtable = parsePointer(
+            (await evaluateNative(context.lldbState, undefined, `*(void **)${instance.address}`)).result,
+        );
+        const symbol = vtable === undefined
+            ? undefined
+            : await runLldbCommand(context.lldbState, undefined, `image lookup -a 0x${vtable.toString(16)}`);
+        typeName = /vtable for (.+?)(?: \+ \d+)?\s*$/m.exec(symbol?.result ?? "")?.[1]?.trim();
+    }
+    if (!typeName) {
+        throw new Error(
+            `No C++ type named ${instance.pythonType} in the debug info; ` +
+                `cast ${instance.address} to the bound type in the debug console.`,
+        );
+    }
+    entry.expression = `*(${typeName} *)${instance.address}`;
+    return entry.expression;
+}
@@ -0,0 +1,190 @@
+import * as fs from "fs";
+
+// A pathMappings entry: editor-side root and debuggee-side root.
+export type PathMapping = {
+    localRoot: string;
+    remoteRoot: string;
+};
+
+// Translates source paths between the editor and the LLDB side.
+// debugpy applies pathMappings itself; LLDB only sees the paths we send, so
+// requests are rewritten local -> remote and responses/events remote -> local.
+// Editor -> LLDB:
+// 1) Resolve symlinks (realpath) so copied/symlinked build trees match DWARF.
+// 2) Apply sourceMap (editor root -> build root), else pathMappings.
+// LLDB -> editor:
+// 1) Prefer the editor path we translated from (keeps symlinked paths stable).
+// 2) Otherwise apply sourceMap (build root -> editor root), else pathMappings.
+export class PathMapper {
+    private readonly mappings: PathMapping[];
+    // sourceMap stored as localRoot = editor path, remoteRoot = build path.
+    private readonly sourceMap: PathMapping[];
+    private readonly editorPaths = new Map<string, string>();
+
+    constructor(mappings: unknown, sourceMap?: unknown) {
+        this.mappings = parsePathMappings(mappings);
+        this.sourceMap = parseSourceMap(sourceMap);
+    }
+
+    // Map an editor path to the path LLDB knows.
+    toAdapter(localPath: string): string {
+        const realPath = resolveRealPath(localPath);
+        const adapterPath = findMapping(realPath, this.sourceMap, "localRoot")
+            ? mapPrefix(realPath, this.sourceMap, "localRoot", "remoteRoot")
+            : mapPrefix(realPath, this.mappings, "localRoot", "remoteRoot");
+        if (adapterPath !== localPath) {
+            this.editorPaths.set(normalizeKey(adapterPath), localPath);
+        }
+        return adapterPath;
+    }
+
+    // Map a path reported by LLDB back to the editor path.
+    toClient(adapterPath: string): string {
+        const known = this.editorPaths.get(normalizeKey(adapterPath));
+        if (known) {
+            return known;
+        }
+        if (findMapping(adapterPath, this.sourceMap, "remoteRoot")) {
+            return mapPrefix(adapterPath, this.sourceMap, "remoteRoot", "localRoot");
+        }
+        return mapPrefix(adapterPath, this.mappings, "remoteRoot", "localRoot");
+    }
+
+    // Rewrite every `source.path` inside a DAP body (stack frames, breakpoints, events).
+    // Steps:
+    // 1) Walk objects and arrays recursively.
+    // 2) Replace `path` on any object stored under a `source` key (or `location`,
+    //    as in disassembled instructions).
+    mapSources(value: unknown, direction: "toAdapter" | "toClient"): void {
+        walkSources(value, (source) => {
+            if (typeof source.path === "string") {
+                source.path = direction === "toAdapter"
+                    ? this.toAdapter(source.path)
+                    : this.toClient(source.path);
+            }
+        });
+    }
+}
+
+function walkSources(
+    value: unknown,
+    visit: (source: Record<string, unknown>) => void,
+): void {
+    if (Array.isArray(value)) {
+        for (const item of value) {
+            walkSources(item, visit);
+        }
+        return;
+    }
+    if (!value || typeof value !== "object") {
+        return;
+    }
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+        if (
+            (key === "source" || key === "location") &&
+            child &&
+            typeof child === "object" &&
+            !Array.isArray(child)
+        ) {
+            visit(child as Record<string, unknown>);
+        }
+        walkSources(child, visit);
+    }
+}
+
+// Editor roots are resolved like the paths toAdapter matches against them.
+function parsePathMappings(value: unknown): PathMapping[] {
+    if (!Array.isArray(value)) {
+        return [];
+    }
+    const mappings: PathMapping[] = [];
+    for (const entry of value) {
+        if (
+            entry &&
+            typeof entry.localRoot === "string" &&
+            typeof entry.remoteRoot === "string" &&
+            entry.localRoot &&
+            entry.remoteRoot
+        ) {
+            mappings.push({ localRoot: resolveRealPath(entry.localRoot), remoteRoot: entry.remoteRoot });
+        }
+    }
+    return mappings;
+}
+
+// sourceMap is { "<build path>": "<editor path>" }, as in CodeLLDB.
+function parseSourceMap(value: unknown): PathMapping[] {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+        return [];
+    }
+    const mappings: PathMapping[] = [];
+    for (const [buildRoot, editorRoot] of Object.entries(value as Record<string, unknown>)) {
+        if (buildRoot && typeof editorRoot === "string" && editorRoot) {
+            mappings.push({ localRoot: resolveRealPath(editorRoot), remoteRoot: buildRoot });
+        }
+    }
+    return mappings;
+}
+
+function resolveRealPath(value: string): string {
+    try {
+        return fs.realpathSync.native(value);
+    } catch {
+        // Not a local file (remote path, deleted file, ...): keep it unchanged.
+        return value;
+    }
+}
+
+function normalizeKey(value: string): string {
+    const normalized = value.replace(/\\/g, "/");
+    return /^[a-zA-Z]:/.test(normalized) ? normalized.toLowerCase() : normalized;
+}
+
+function findMapping(
+    value: string,
+    mappings: PathMapping[],
+    from: keyof PathMapping,
+): PathMapping | undefined {
+    // Longest matching root wins when roots are nested.
+    let best: PathMapping | undefined;
+    for (const mapping of mappings) {
+        if (isUnderRoot(value, mapping[from]) && (!best || mapping[from].length > best[from].length)) {
+            best = mapping;
+        }
+    }
+    return best;
+}
+
+function mapPrefix(
+    value: string,
+    mappings: PathMapping[],
+    from: keyof PathMapping,
+    to: keyof PathMapping,
+): string {
+    const best = findMapping(value, mappings, from);
+    if (!best) {
+        return value;
+    }
+    const fromRoot = trimTrailingSeparator(best[from]);
+    const toRoot = trimTrailingSeparator(best[to]);
+    const relative = value.slice(fromRoot.length).replace(/^[\\/]+/, "");
+    if (!relative) {
+        return toRoot;
+    }
+    // Use the separator style of the target side (Windows editor vs. Linux remote).
+    const separator = toRoot.includes("\\") && !toRoot.includes("/") ? "\\" : "/";
+    return `${toRoot}${separator}${relative.split(/[\\/]/).join(separator)}`;
+}
+
+function isUnderRoot(value: string, root: string): boolean {
+    const normalizedValue = value.replace(/\\/g, "/");
+    const normalizedRoot = trimTrailingSeparator(root).replace(/\\/g, "/");
+    const caseInsensitive = /^[a-zA-Z]:/.test(normalizedRoot);
+    const left = caseInsensitive ? normalizedValue.toLowerCase() : normalizedValue;
+    const right = caseInsensitive ? normalizedRoot.toLowerCase() : normalizedRoot;
+    return left === right || left.startsWith(`${right}/`);
+}
+
+function trimTrailingSeparator(value: string): string {
+    return value.length > 1 ? value.replace(/[\\/]+$/, "") : value;
+}
@@ -0,0 +1,140 @@
+import * as vscode from "vscode";
+import { DapMessage, DapRequest, DapResponse } from "./data_types";
+import { DebugpyState, IdState, LldbState, PauseState, SessionState } from "./proxy_types";
+import { requestFromDebugpy } from "./proxy_debugpy";
+import { requestFromLldb } from "./proxy_lldb";
+import { linkedThreadId } from "./proxy_ids";
+import { isLldbReady } from "./proxy_native_breakpoints";
+
+export type PauseContext = {
+    session: SessionState;
+    debugpyState: DebugpyState;
+    lldbState: LldbState;
+    idState: IdState;
+    pauseState: PauseState;
+    output: vscode.OutputChannel;
+    sendToClient: (message: DapMessage) => void;
+    forwardClientRequestToDebugpy: (request: DapRequest) => void;
+};
+
+// How long a Python pause may take before the process is paused through LLDB.
+const PAUSE_FALLBACK_TIMEOUT_MS = 1500;
+
+export function createPauseState(): PauseState {
+    return {};
+}
+
+// Pause while Python runs. A thread inside a long C++ call never reaches debugpy's
+// trace function, so debugpy acknowledges the pause but never stops.
+// Steps:
+// 1) Ask debugpy to pause and wait for its stopped event.
+// 2) On a failed pause or a timeout, pause the process through LLDB instead.
+// 3) Remember debugpy's outstanding pause so resuming can cancel it.
+export function handlePythonPause(context: PauseContext, request: DapRequest): void {
+    if (!isLldbReady(context)) {
+        context.forwardClientRequestToDebugpy(request);
+        return;
+    }
+    const { pauseState } = context;
+    const threadId = request.arguments?.threadId as number | undefined;
+    let answered = false;
+    const respond = (response: DapResponse): void => {
+        if (answered) {
+            return;
+        }
+        answered = true;
+        context.sendToClient({
+            ...response,
+            seq: context.session.clientSeq++,
+            request_seq: request.seq,
+            command: request.command,
+            body: undefined,
+        });
+    };
+
+    clearPauseTimer(pauseState);
+    pauseState.pythonPauseThreadId = threadId;
+    pauseState.awaitingPythonStop = true;
+    pauseState.timer = setTimeout(() => {
+        context.output.appendLine("[proxy] Python did not pause in time; pausing native code.");
+        void pauseThroughLldb(context).then(respond);
+    }, PAUSE_FALLBACK_TIMEOUT_MS);
+
+    void requestFromDebugpy(context.debugpyState, "pause", request.arguments).then((response) => {
+        if (response.success) {
+            respond(response);
+            return;
+        }
+        context.output.appendLine(
+            `[proxy] debugpy pause failed (${response.message ?? "no message"}); pausing native code.`,
+        );
+        void pauseThroughLldb(context).then(respond);
+    });
+}
+
+// debugpy stopped: the pause (if any) was honoured in Python.
+export function onPythonPaused(context: PauseContext): void {
+    clearPauseTimer(context.pauseState);
+    context.pauseState.awaitingPythonStop = false;
+    context.pauseState.pythonPauseThreadId = undefined;
+}
+
+// LLDB stopped (fallback pause or a breakpoint hit while waiting): debugpy's pause
+// stays requested until it is cancelled on resume.
+export function onNativePaused(context: PauseContext): void {
+    const { pauseState } = context;
+    clearPauseTimer(pauseState);
+    if (pauseState.awaitingPythonStop) {
+        pauseState.awaitingPythonStop = false;
+        pauseState.cancelPythonPause = true;
+    }
+}
+
+// Resuming native code: cancel debugpy's outstanding pause so Python does not
+// stop on its own once the C++ call returns.
+export function onNativeResume(context: PauseContext): void {
+    const { pauseState } = context;
+    if (!pauseState.cancelPythonPause) {
+        return;
+    }
+    pauseState.cancelPythonPause = false;
+    const threadId = pauseState.pythonPauseThreadId;
+    pauseState.pythonPauseThreadId = undefined;
+    void requestFromDebugpy(context.debugpyState, "continue", { threadId }).then((response) => {
+        if (!response.success) {
+            context.output.appendLine(
+                `[proxy] could not cancel the Python pause: ${response.message ?? "no message"}`,
+            );
+        }
+    });
+}
+
+async function pauseThroughLldb(context: PauseContext): Promise<DapResponse> {
+    const { pauseState } = context;
+    clearPauseTimer(pauseState);
+    if (!pauseState.awaitingPythonStop) {
+        // Something already stopped the process.
+        return pauseResponse(true);
+    }
+    // LLDB stops the whole process; the thread only selects where the UI lands.
+    const pythonThreadId = pauseState.pythonPauseThreadId;
+    const threadId = (pythonThreadId !== undefined
+        ? linkedThreadId(context.idState, "debugpy", pythonThreadId, "lldb")
+        : undefined) ?? context.session.debuggeePid;
+    const response = await requestFromLldb(context.lldbState, "pause", { threadId });
+    if (!response.success) {
+        context.output.appendLine(`[proxy] LLDB pause failed: ${response.message ?? "no message"}`);
+    }
+    return response;
+}
+
+function pauseResponse(success: boolean): DapResponse {
+    return { seq: 0, type: "response", request_seq: 0, command: "pause", success };
+}
+
+function clearPauseTimer(pauseState: PauseState): void {
+    if (pauseState.timer) {
+        clearTimeout(pauseState.timer);
+        pauseState.timer = undefined;
+    }
+}
@@ -0,0 +1,544 @@
+import * as vscode from "vscode";
+import { DapMessage, DapRequest, DapResponse } from "./data_types";
+import { IdState, LldbState, PyObjectState, PythonLayout, PythonTypeInfo, SessionState } from "./proxy_types";
+import { allocateProxyId } from "./proxy_ids";
+import { evaluateNative, parsePointer, readNativeMemory, requestFromLldb } from "./proxy_lldb";
+
+export type PyObjectContext = {
+    session: SessionState;
+    lldbState: LldbState;
+    idState: IdState;
+    pyObjectState: PyObjectState;
+    output: vscode.OutputChannel;
+    sendToClient: (message: DapMessage) => void;
+};
+
+type PythonValue = {
+    typeName: string;
+    repr: string;
+    refcount: string;
+    // Non-empty lists, tuples and dicts expand to their items.
+    expandable: boolean;
+};
+
+type PythonChild = { name: string; address: bigint };
+
+// Python-style text for a variable, and the container it expands to.
+type PythonSummary = { text: string; expandable?: bigint };
+
+// C/C++ types holding a PyObject*: raw pointers and pybind11/nanobind handles.
+const PYOBJECT_POINTER_TYPE = /^(const\s+)?(struct\s+)?(PyObject|_object)\s*\*(\s*const)?$/;
+const PYOBJECT_HANDLE_TYPE =
+    /^(const\s+)?(pybind11|py|nanobind|nb)::(handle|object|str|bytes|int_|float_|bool_|list|tuple|dict|set|none|iterable|sequence|module_|capsule|function|callable|args|kwargs)\b(\s*(&|const))*$/;
+// Bounds for reading interpreter memory.
+const MAX_INLINE_ITEMS = 8;
+const MAX_CHILDREN = 256;
+const MAX_STRING_CHARS = 256;
+const MAX_INT_DIGITS = 40;
+// Py_TPFLAGS_*_SUBCLASS bits of tp_flags.
+const TPFLAGS_LONG_SUBCLASS = 1n << 24n;
+const TPFLAGS_LIST_SUBCLASS = 1n << 25n;
+const TPFLAGS_TUPLE_SUBCLASS = 1n << 26n;
+const TPFLAGS_BYTES_SUBCLASS = 1n << 27n;
+const TPFLAGS_UNICODE_SUBCLASS = 1n << 28n;
+const TPFLAGS_DICT_SUBCLASS = 1n << 29n;
+// PyTypeObject field offsets (64-bit): tp_name and tp_flags.
+const TP_NAME_OFFSET = 24;
+const TP_FLAGS_OFFSET = 168;
+
+export function createPyObjectState(): PyObjectState {
+    return { types: new Map(), references: new Map() };
+}
+
+// Object references and type names are only valid while LLDB stays stopped.
+export function resetPyObjects(context: PyObjectContext): void {
+    context.pyObjectState.types.clear();
+    context.pyObjectState.references.clear();
+}
+
+// Show Python objects held by C/C++ code as Python values in an LLDB
+// variables or evaluate response.
+// Steps:
+// 1) Find PyObject* and pybind11/nanobind handle values and their object address.
+// 2) Read type, refcount and value from interpreter memory (no code runs in the process).
+// 3) Translate the response with `toClient`, then replace each value with its
+//    Python-style summary; containers expand to their items.
+export async function summarizePythonObjects(
+    context: PyObjectContext,
+    response: DapResponse,
+    toClient: (response: DapResponse) => DapResponse,
+): Promise<DapResponse> {
+    const body = response.body;
+    if (!response.success || !body) {
+        return toClient(response);
+    }
+    try {
+        if (Array.isArray(body.variables)) {
+            const summaries = await Promise.all(
+                (body.variables as Array<Record<string, unknown>>).map((variable) =>
+                    summarizeVariable(context, variable, "value"),
+                ),
+            );
+            const translated = toClient(response);
+            const variables = (translated.body?.variables as Array<Record<string, unknown>>).map(
+                (variable, index) => applySummary(context, variable, summaries[index], "value"),
+            );
+            return { ...translated, body: { ...translated.body, variables } };
+        }
+        if (typeof body.result === "string") {
+            const summary = await summarizeVariable(context, body, "result");
+            const translated = toClient(response);
+            return { ...translated, body: applySummary(context, translated.body ?? {}, summary, "result") };
+        }
+    } catch (error) {
+        context.output.appendLine(
+            `[proxy] Python object summary failed: ${error instanceof Error ? error.message : String(error)}`,
+        );
+    }
+    return toClient(response);
+}
+
+// Answer a variables request for an expanded Python container.
+export function handlePythonObjectVariables(context: PyObjectContext, request: DapRequest): boolean {
+    const reference = request.arguments?.variablesReference as number | undefined;
+    const address = reference === undefined ? undefined : context.pyObjectState.references.get(reference);
+    if (request.command !== "variables" || address === undefined) {
+        return false;
+    }
+    const respond = (success: boolean, body?: Record<string, unknown>, message?: string): void => {
+        const response: DapResponse = {
+            seq: context.session.clientSeq++,
+            type: "response",
+            request_seq: request.seq,
+            command: request.command,
+            success,
+            message,
+            body,
+        };
+        context.sendToClient(response);
+    };
+    void readChildVariables(context, address).then(
+        (variables) => respond(true, { variables }),
+        (error: Error) => respond(false, undefined, `Cannot read the Python object: ${error.message}`),
+    );
+    return true;
+}
+
+// Reads the object behind an LLDB variable (whose references are still LLDB's own).
+async function summarizeVariable(
+    context: PyObjectContext,
+    variable: Record<string, unknown>,
+    valueKey: "value" | "result",
+): Promise<PythonSummary | undefined> {
+    const type = typeof variable.type === "string" ? variable.type.trim() : "";
+    let address: bigint | undefined;
+    if (PYOBJECT_POINTER_TYPE.test(type)) {
+        address = parsePointer(variable[valueKey] as string | undefined);
+    } else if (PYOBJECT_HANDLE_TYPE.test(type)) {
+        address = await findHandlePointer(context, variable.variablesReference, 0);
+    }
+    if (address === undefined) {
+        return undefined;
+    }
+    const value = await readPythonValue(context, address, 0);
+    if (!value) {
+        return undefined;
+    }
+    return {
+        text: `${value.repr}  (${value.typeName}, refcount ${value.refcount})`,
+        expandable: value.expandable ? address : undefined,
+    };
+}
+
+function applySummary(
+    context: PyObjectContext,
+    variable: Record<string, unknown>,
+    summary: PythonSummary | undefined,
+    valueKey: "value" | "result",
+): Record<string, unknown> {
+    if (!summary) {
+        return variable;
+    }
+    return {
+        ...variable,
+        [valueKey]: summary.text,
+        variablesReference: summary.expandable === undefined
+            ? variable.variablesReference
+            : allocateReference(context, summary.expandable),
+    };
+}
+
+// pybind11 and nanobind handles keep the object in `m_ptr`, possibly inside a base class.
+async function findHandlePointer(
+    context: PyObjectContext,
+    reference: unknown,
+    depth: number,
+): Promise<bigint | undefined> {
+    if (typeof reference !== "number" || reference <= 0 || depth > 3) {
+        return undefined;
+    }
+    const response = await requestFromLldb(context.lldbState, "variables", { variablesReference: reference });
+    const children = (response.body?.variables as Array<Record<string, unknown>> | undefined) ?? [];
+    const pointer = children.find((child) => child.name === "m_ptr");
+    if (pointer) {
+        return parsePointer(pointer.value as string | undefined);
+    }
+    for (const child of children) {
+        const found = await findHandlePointer(context, child.variablesReference, depth + 1);
+        if (found !== undefined) {
+            return found;
+        }
+    }
+    return undefined;
+}
+
+function allocateReference(context: PyObjectContext, address: bigint): number {
+    const reference = allocateProxyId(context.idState, "variables");
+    context.pyObjectState.references.set(reference, address);
+    return reference;
+}
+
+async function readChildVariables(
+    context: PyObjectContext,
+    address: bigint,
+): Promise<Array<Record<string, unknown>>> {
+    const children = await readChildren(context, address, MAX_CHILDREN);
+    return Promise.all(
+        children.map(async (child) => {
+            // Nested containers are previewed as "[...]" and expand on demand.
+            const value = await readPythonValue(context, child.address, 1);
+            if (!value) {
+                return { name: child.name, value: `0x${child.address.toString(16)}`, variablesReference: 0 };
+            }
+            return {
+                name: child.name,
+                value: value.repr,
+                type: value.typeName,
+                variablesReference: value.expandable ? allocateReference(context, child.address) : 0,
+            };
+        }),
+    );
+}
+
+// Determine the interpreter's object layout from Py_Version (exported since 3.11).
+async function getLayout(context: PyObjectContext): Promise<PythonLayout> {
+    const { pyObjectState } = context;
+    if (pyObjectState.layout) {
+        return pyObjectState.layout;
+    }
+    const evaluated = await evaluateNative(context.lldbState, undefined, "*(unsigned int *)&Py_Version");
+    const version = Number(/\d+/.exec(evaluated.result ?? "")?.[0]);
+    // Without Py_Version the interpreter predates 3.11.
+    const minor = Number.isInteger(version) && version > 0 ? (version >> 16) & 0xff : 10;
+    pyObjectState.layout = {
+        minor,
+        asciiHeaderSize: minor >= 12 ? 40 : 48,
+        compactHeaderSize: minor >= 12 ? 56 : 72,
+        tupleItemsOffset: minor >= 14 ? 32 : 24,
+    };
+    return pyObjectState.layout;
+}
+
+async function readType(context: PyObjectContext, typeAddress: bigint): Promise<PythonTypeInfo | undefined> {
+    const cached = context.pyObjectState.types.get(typeAddress);
+    if (cached) {
+        return cached;
+    }
+    const type = await readNativeMemory(context.lldbState, typeAddress, TP_FLAGS_OFFSET + 8);
+    if (!type || type.length < TP_FLAGS_OFFSET + 8) {
+        return undefined;
+    }
+    const name = await readCString(context, type.readBigUInt64LE(TP_NAME_OFFSET), 128);
+    if (name === undefined) {
+        return undefined;
+    }
+    const info = { name, flags: type.readBigUInt64LE(TP_FLAGS_OFFSET) };
+    context.pyObjectState.types.set(typeAddress, info);
+    return info;
+}
+
+// Read one object: type name, refcount and a repr()-like rendering.
+// `depth` limits how far container items are rendered inline.
+async function readPythonValue(
+    context: PyObjectContext,
+    address: bigint,
+    depth: number,
+): Promise<PythonValue | undefined> {
+    const layout = await getLayout(context);
+    // Objects are at least 24 bytes past None and other fixed-size singletons;
+    // the str state field needs the first 36.
+    const header = await readNativeMemory(context.lldbState, address, 40);
+    if (!header || header.length < 24) {
+        return undefined;
+    }
+    const refcount = header.readBigUInt64LE(0);
+    const type = await readType(context, header.readBigUInt64LE(8));
+    if (!type) {
+        return undefined;
+    }
+    const value = (repr: string, expandable = false): PythonValue => ({
+        typeName: type.name,
+        repr,
+        // Immortal objects (3.12+) have the sign bit of the 32-bit count set.
+        refcount: layout.minor >= 12 && (refcount & 0x80000000n) !== 0n ? "immortal" : refcount.toString(),
+        expandable,
+    });
+
+    if (type.name === "NoneType") {
+        return value("None");
+    }
+    if (type.name === "float") {
+        return value(formatFloat(header.readDoubleLE(16)));
+    }
+    if (type.flags & TPFLAGS_LONG_SUBCLASS) {
+        const integer = await readInt(context, layout, address, header);
+        if (type.name === "bool") {
+            return value(integer === "0" ? "False" : "True");
+        }
+        return value(integer);
+    }
+    if (type.flags & TPFLAGS_UNICODE_SUBCLASS) {
+        return value(await readStr(context, layout, address, header));
+    }
+    if (type.flags & TPFLAGS_BYTES_SUBCLASS) {
+        const size = Number(header.readBigInt64LE(16));
+        const data = await readNativeMemory(context.lldbState, address + 32n, Math.min(size, MAX_STRING_CHARS));
+        return value(data ? `b${quotePython(data.toString("latin1"), true)}${size > data.length ? "..." : ""}` : "b'?'");
+    }
+    if (type.flags & (TPFLAGS_LIST_SUBCLASS | TPFLAGS_TUPLE_SUBCLASS | TPFLAGS_DICT_SUBCLASS)) {
+        const isDict = (type.flags & TPFLAGS_DICT_SUBCLASS) !== 0n;
+        const [open, close] = isDict ? ["{", "}"] : type.flags & TPFLAGS_LIST_SUBCLASS ? ["[", "]"] : ["(", ")"];
+        const size = Number(header.readBigInt64LE(16));
+        if (depth >= 1) {
+            return value(size === 0 ? `${open}${close}` : `${open}...${close}`, size > 0);
+        }
+        const children = await readChildren(context, address, MAX_INLINE_ITEMS);
+        const items = await Promise.all(
+            children.map(async (child) => {
+                const item = await readPythonValue(context, child.address, depth + 1);
+                const itemRepr = item?.repr ?? "?";
+                return isDict ? `${child.name}: ${itemRepr}` : itemRepr;
+            }),
+        );
+        if (items.length === 0 && size > 0) {
+            // Split-table dict: the items are not readable, only the size.
+            return value(`${open}${size} items${close}`);
+        }
+        const more = size > items.length ? ", ..." : "";
+        const trailing = !isDict && open === "(" && size === 1 ? "," : "";
+        return value(`${open}${items.join(", ")}${more}${trailing}${close}`, size > 0);
+    }
+    return value(`<${type.name} object at 0x${address.toString(16)}>`);
+}
+
+// Items of a list, tuple or dict, read from their storage.
+async function readChildren(
+    context: PyObjectContext,
+    address: bigint,
+    limit: number,
+): Promise<PythonChild[]> {
+    const layout = await getLayout(context);
+    const header = await readNativeMemory(context.lldbState, address, 48);
+    if (!header || header.length < 48) {
+        return [];
+    }
+    const type = await readType(context, header.readBigUInt64LE(8));
+    if (!type) {
+        return [];
+    }
+    const size = Math.max(0, Number(header.readBigInt64LE(16)));
+    if (type.flags & TPFLAGS_DICT_SUBCLASS) {
+        return readDictItems(context, layout, header, limit);
+    }
+    const count = Math.min(size, limit);
+    const itemsAddress = type.flags & TPFLAGS_LIST_SUBCLASS
+        ? header.readBigUInt64LE(24)
+        : address + BigInt(layout.tupleItemsOffset);
+    const items = count > 0 ? await readNativeMemory(context.lldbState, itemsAddress, count * 8) : undefined;
+    const children: PythonChild[] = [];
+    for (let i = 0; items && i + 1 <= items.length / 8; i += 1) {
+        children.push({ name: `[${i}]`, address: items.readBigUInt64LE(i * 8) });
+    }
+    return children;
+}
+
+// Key/value pairs of a combined-table dict, named by the key's repr.
+// Split tables (instance dicts) only report their size.
+async function readDictItems(
+    context: PyObjectContext,
+    layout: PythonLayout,
+    header: Buffer,
+    limit: number,
+): Promise<PythonChild[]> {
+    const keysAddress = header.readBigUInt64LE(32);
+    if (header.readBigUInt64LE(40) !== 0n || keysAddress === 0n) {
+        return [];
+    }
+    const keys = await readNativeMemory(context.lldbState, keysAddress, 48);
+    if (!keys || keys.length < 48) {
+        return [];
+    }
+    let entriesAddress: bigint;
+    let entrySize: number;
+    let keyOffset: number;
+    let entryCount: number;
+    if (layout.minor >= 11) {
+        // dk_log2_size, dk_log2_index_bytes, dk_kind, dk_version, dk_usable, dk_nentries, dk_indices.
+        const indexBytes = 2 ** keys.readUInt8(9);
+        const generic = keys.readUInt8(10) === 0;
+        entriesAddress = keysAddress + 32n + BigInt(indexBytes);
+        entrySize = generic ? 24 : 16;
+        keyOffset = generic ? 8 : 0;
+        entryCount = Number(keys.readBigInt64LE(24));
+    } else {
+        // dk_size, dk_lookup, dk_usable, dk_nentries, dk_indices (3.10).
+        const tableSize = Number(keys.readBigInt64LE(8));
+        const indexWidth = tableSize <= 0xff ? 1 : tableSize <= 0xffff ? 2 : tableSize <= 0xffffffff ? 4 : 8;
+        entriesAddress = keysAddress + 40n + BigInt(tableSize * indexWidth);
+        entrySize = 24;
+        keyOffset = 8;
+        entryCount = Number(keys.readBigInt64LE(32));
+    }
+    const count = Math.min(Math.max(entryCount, 0), MAX_CHILDREN);
+    const entries = count > 0
+        ? await readNativeMemory(context.lldbState, entriesAddress, count * entrySize)
+        : undefined;
+    const children: PythonChild[] = [];
+    for (let i = 0; entries && (i + 1) * entrySize <= entries.length && children.length < limit; i += 1) {
+        const key = entries.readBigUInt64LE(i * entrySize + keyOffset);
+        const value = entries.readBigUInt64LE(i * entrySize + keyOffset + 8);
+        if (key === 0n || value === 0n) {
+            // Deleted entry.
+            continue;
+        }
+        const keyValue = await readPythonValue(context, key, 1);
+        children.push({ name: keyValue?.repr ?? `0x${key.toString(16)}`, address: value });
+    }
+    return children;
+}
+
+async function readInt(
+    context: PyObjectContext,
+    layout: PythonLayout,
+    address: bigint,
+    header: Buffer,
+): Promise<string> {
+    let digitCount: number;
+    let negative: boolean;
+    if (layout.minor >= 12) {
+        // lv_tag: digit count << 3 | sign (0 positive, 1 zero, 2 negative).
+        const tag = header.readBigUInt64LE(16);
+        digitCount = Number(tag >> 3n);
+        negative = (tag & 3n) === 2n;
+        if ((tag & 3n) === 1n) {
+            return "0";
+        }
+    } else {
+        const size = header.readBigInt64LE(16);
+        digitCount = Number(size < 0n ? -size : size);
+        negative = size < 0n;
+    }
+    if (digitCount === 0) {
+        return "0";
+    }
+    if (digitCount > MAX_INT_DIGITS) {
+        return `<int with ${digitCount * 30} bits>`;
+    }
+    const digits = await readNativeMemory(context.lldbState, address + 24n, digitCount * 4);
+    if (!digits || digits.length < digitCount * 4) {
+        return "?";
+    }
+    let magnitude = 0n;
+    for (let i = digitCount - 1; i >= 0; i -= 1) {
+        magnitude = (magnitude << 30n) | BigInt(digits.readUInt32LE(i * 4));
+    }
+    return `${negative ? "-" : ""}${magnitude.toString()}`;
+}
+
+async function readStr(
+    context: PyObjectContext,
+    layout: PythonLayout,
+    address: bigint,
+    header: Buffer,
+): Promise<string> {
+    if (header.length < 36) {
+        return "<str>";
+    }
+    const length = Number(header.readBigInt64LE(16));
+    // state bitfield: interned:2, kind:3, compact:1, ascii:1.
+    const state = header.readUInt32LE(32);
+    const kind = (state >> 2) & 7;
+    const compact = (state >> 5) & 1;
+    const ascii = (state >> 6) & 1;
+    if (!compact || (kind !== 1 && kind !== 2 && kind !== 4)) {
+        return "<str>";
+    }
+    const chars = Math.min(length, MAX_STRING_CHARS);
+    const dataAddress = address + BigInt(ascii ? layout.asciiHeaderSize : layout.compactHeaderSize);
+    const data = await readNativeMemory(context.lldbState, dataAddress, chars * kind);
+    if (!data) {
+        return "'?'";
+    }
+    // Stale or uninitialized memory can hold values that are not code points.
+    const text: Array<string | number> = [];
+    for (let i = 0; (i + 1) * kind <= data.length; i += 1) {
+        const code = kind === 1 ? data.readUInt8(i) : kind === 2 ? data.readUInt16LE(i * 2) : data.readUInt32LE(i * 4);
+        text.push(code <= 0x10ffff ? String.fromCodePoint(code) : code);
+    }
+    return `${quotePythonChars(text)}${length > chars ? "..." : ""}`;
+}
+
+async function readCString(context: PyObjectContext, address: bigint, limit: number): Promise<string | undefined> {
+    if (address === 0n) {
+        return undefined;
+    }
+    const data = await readNativeMemory(context.lldbState, address, limit);
+    if (!data) {
+        return undefined;
+    }
+    const end = data.indexOf(0);
+    return data.subarray(0, end >= 0 ? end : data.length).toString("utf8");
+}
+
+// Quote text like Python's repr() of a str (or of bytes, which escape non-ASCII).
+function quotePython(text: string, bytes = false): string {
+    return quotePythonChars([...text], bytes);
+}
+
+// Characters to quote; numbers are values that are not code points, shown escaped.
+function quotePythonChars(text: Array<string | number>, bytes = false): string {
+    const quote = text.includes("'") && !text.includes("\"") ? "\"" : "'";
+    let result = quote;
+    for (const char of text) {
+        if (typeof char === "number") {
+            result += `\\x${char.toString(16)}`;
+            continue;
+        }
+        const code = char.codePointAt(0) ?? 0;
+        if (char === "\\" || char === quote) {
+            result += `\\${char}`;
+        } else if (char === "\n") {
+            result += "\\n";
+        } else if (char === "\r") {
+            result += "\\r";
+        } else if (char === "\t") {
+            result += "\\t";
+        } else if (code < 0x20 || code === 0x7f || (bytes && code > 0x7f)) {
+            result += `\\x${code.toString(16).padStart(2, "0")}`;
+        } else {
+            result += char;
+        }
+    }
+    return result + quote;
+}
+
+function formatFloat(value: number): string {
+    if (Number.isNaN(value)) {
+        return "nan";
+    }
+    if (!Number.isFinite(value)) {
+        return value > 0 ? "inf" : "-inf";
+    }
+    const text = String(value);
+    return /[.e]/.test(text) ? text : `${text}.0`;
+}
@@ -0,0 +1,110 @@
+import { DapEvent, DapMessage, DapResponse } from "./data_types";
+import { AdapterName, IdState, RunState, SessionState } from "./proxy_types";
+import { toClientId } from "./proxy_ids";
+
+export type RunStateContext = {
+    session: SessionState;
+    idState: IdState;
+    runState: RunState;
+    sendToClient: (message: DapMessage) => void;
+};
+
+// Requests that let the process run again ("goto" only moves the stop and ends in a stopped event).
+const RESUME_COMMANDS = new Set([
+    "continue",
+    "next",
+    "stepIn",
+    "stepOut",
+    "stepBack",
+    "reverseContinue",
+]);
+
+export function isResumeCommand(command: string): boolean {
+    return RESUME_COMMANDS.has(command);
+}
+
+export function createRunState(): RunState {
+    return {
+        debugpy: { state: "running" },
+        lldb: { state: "running" },
+    };
+}
+
+// A stop of this adapter was shown to the UI.
+export function onAdapterStopped(context: RunStateContext, adapter: AdapterName, event: DapEvent): void {
+    context.runState[adapter] = {
+        state: "stopped",
+        threadId: event.body?.threadId as number | undefined,
+    };
+    updateActiveAdapter(context);
+}
+
+// Track run state from adapter events that do not stop the process.
+// Steps:
+// 1) continued: the adapter runs again.
+// 2) thread exited: a stop on that thread cannot outlive it.
+// 3) exited/terminated: the adapter is done.
+export function onAdapterEvent(context: RunStateContext, adapter: AdapterName, event: DapEvent): void {
+    const adapterState = context.runState[adapter];
+    switch (event.event) {
+        case "continued":
+            adapterState.state = adapterState.state === "exited" ? "exited" : "running";
+            break;
+        case "thread":
+            if (
+                event.body?.reason === "exited" &&
+                adapterState.state === "stopped" &&
+                event.body?.threadId === adapterState.threadId
+            ) {
+                adapterState.state = "running";
+            }
+            break;
+        case "exited":
+        case "terminated":
+            adapterState.state = "exited";
+            break;
+        default:
+            return;
+    }
+    updateActiveAdapter(context);
+}
+
+// A resume request succeeded. Client requests need no event: VS Code already
+// considers the thread running. Resumes issued by the proxy itself (such as the
+// auto-continue after the entry stop) get a synthesized continued event.
+export function onResumeResponse(
+    context: RunStateContext,
+    adapter: AdapterName,
+    response: DapResponse,
+    requestedByClient: boolean,
+): void {
+    if (!response.success || !isResumeCommand(response.command)) {
+        return;
+    }
+    const adapterState = context.runState[adapter];
+    if (adapterState.state !== "stopped") {
+        return;
+    }
+    adapterState.state = "running";
+    updateActiveAdapter(context);
+    if (requestedByClient || adapterState.threadId === undefined) {
+        return;
+    }
+    const event: DapEvent = {
+        seq: context.session.clientSeq++,
+        type: "event",
+        event: "continued",
+        body: {
+            threadId: toClientId(context.idState, "thread", adapter, adapterState.threadId),
+            allThreadsContinued: true,
+        },
+    };
+    context.sendToClient(event);
+}
+
+// Requests about the stopped process go to the debugger that holds it stopped.
+// An LLDB stop freezes Python as well, so it takes precedence; with nothing
+// stopped, Python is the default.
+function updateActiveAdapter(context: RunStateContext): void {
+    context.session.activeAdapter = context.runState.lldb.state === "stopped" ? "lldb" : "debugpy";
+}
@@ -1,14 +1,13 @@
 import * as net from "net";
 import * as vscode from "vscode";
-import * as childProcess from "child_process";
-import { DapEvent, DapRequest, DapResponse } from "./data_types";
+import { AdapterEndpoint, DapEvent, DapRequest, DapResponse } from "./data_types";
 import { DebugpyState, LldbState, SessionState } from "./proxy_types";
 
 export type ShutdownContext = {
     session: SessionState;
     debugpyState: DebugpyState;
     lldbState: LldbState;
-    lldbProcess?: childProcess.ChildProcessWithoutNullStreams;
+    lldbAdapter?: AdapterEndpoint;
     socket: net.Socket;
     output: vscode.OutputChannel;
     sendToClient: (message: DapResponse | DapEvent) => void;
@@ -109,8 +108,8 @@ export class ShutdownManager {
                 // LLDB did not respond; proceed with debugpy shutdown anyway.
                 session.shutdownLldbAck = true;
                 this.dispatchDebugpyShutdown();
-                if (this.context.lldbProcess && !this.context.lldbProcess.killed) {
-                    this.context.lldbProcess.kill();
+                if (this.context.lldbAdapter && !this.context.lldbAdapter.isClosed()) {
+                    this.context.lldbAdapter.close();
                 }
                 this.maybeCloseClientSocket();
             }, 500);
@@ -347,15 +346,15 @@ export class ShutdownManager {
         };
     }
 
-    // Resolve terminateDebuggee flag, defaulting to true when unset.
+    // Resolve terminateDebuggee flag, defaulting by session kind when unset.
     // Steps:
     // 1) Check request arguments.
-    // 2) Fall back to true for compatibility.
+    // 2) Fall back to true for launch (compatibility) and false for attach.
     private resolveTerminateDebuggee(request: DapRequest): boolean {
         const terminateValue = request.arguments?.terminateDebuggee;
         if (typeof terminateValue === "boolean") {
             return terminateValue;
         }
-        return true;
+        return !this.context.session.attachedToRunningProcess;
     }
 }
@@ -0,0 +1,483 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { DapMessage, DapRequest, DapResponse } from "./data_types";
+import { IdState, LldbState, SessionState, StackState } from "./proxy_types";
+import { allocateProxyId, translateToClient } from "./proxy_ids";
+import { evaluateNative, parsePointer, readNativeMemory, requestFromLldb } from "./proxy_lldb";
+
+export type StackContext = {
+    session: SessionState;
+    lldbState: LldbState;
+    idState: IdState;
+    stackState: StackState;
+    config: vscode.DebugConfiguration;
+    output: vscode.OutputChannel;
+    sendToClient: (message: DapMessage) => void;
+};
+
+export type StackFrame = Record<string, unknown> & { id: number; name: string };
+
+// `group`: the eval-loop invocation (innermost first) that runs the frame, when known.
+type PythonFrame = { path: string; line: number; name: string; group?: number };
+
+// Fields read to walk a thread's Python frames (64-bit builds with the GIL): the
+// PyFrameObject chain in 3.10, the _PyInterpreterFrame chain since 3.11.
+type PythonFrameLayout = {
+    // Pointer fields followed from the PyThreadState to the innermost frame.
+    topFramePath: number[];
+    previousOffset: number;
+    codeOffset: number;
+    // 3.11 prev_instr, and the offset of co_code_adaptive in the code object.
+    instructionOffset?: number;
+    codeUnitsOffset?: number;
+    ownerOffset?: number;
+    isEntryOffset?: number;
+    size: number;
+    // co_filename and co_name in PyCodeObject.
+    filenameOffset: number;
+    nameOffset: number;
+};
+
+// Upper bound for Python frames walked per stop.
+const MAX_PYTHON_FRAMES = 256;
+// Longest file or function name read from a code object.
+const MAX_CODE_STRING_CHARS = 4096;
+// _PyInterpreterFrame.owner of the shim frame each eval-loop call pushes (3.12+).
+const FRAME_OWNED_BY_CSTACK = 3;
+
+// CPython eval-loop entry points: each one runs one or more Python frames.
+const EVAL_FRAME_PATTERN = /^(_PyEval_EvalFrameDefault|_PyEval_EvalFrame|PyEval_EvalFrameEx)\b/;
+// Interpreter and process-startup internals hidden from the merged stack.
+const INTERPRETER_FRAME_PATTERN =
+    /^(_?Py[A-Z_]|_Py|cfunction_|method_vectorcall|vectorcall_|slot_tp_|builtin_|run_mod|run_eval_code_obj|pymain_|_start$|__libc_start)/;
+// Binding glue between Python and C++; kept but de-emphasized (collapsible).
+const GLUE_FRAME_PATTERN = /(pybind11::|pybind11_|nanobind::|nb_func_|nb::detail)/;
+
+export function createStackState(): StackState {
+    return {
+        mergedStacks: new Map(),
+        pythonFrames: new Map(),
+    };
+}
+
+// Whether the merged (unified) call stack mode is enabled for this session.
+export function isMergedStackEnabled(context: StackContext): boolean {
+    return context.config.unifiedCallStack === true;
+}
+
+// Drop merged stacks and synthesized Python frames once the process resumes.
+export function resetMergedStacks(context: StackContext): void {
+    context.stackState.mergedStacks.clear();
+    context.stackState.pythonFrames.clear();
+}
+
+// Answer a stackTrace request for an LLDB stop with Python frames interleaved.
+// Steps:
+// 1) Fetch (or reuse) the full merged stack for the thread.
+// 2) Slice it for the client's startFrame/levels paging.
+// 3) Reply with totalFrames so VS Code can page through the merged stack.
+export function handleMergedStackTrace(context: StackContext, request: DapRequest): void {
+    void buildMergedStackResponse(context, request).then(
+        (response) => context.sendToClient(response),
+        (error: Error) => {
+            context.output.appendLine(`[proxy] merged stack failed: ${error.message}`);
+            const response: DapResponse = {
+                seq: context.session.clientSeq++,
+                type: "response",
+                request_seq: request.seq,
+                command: request.command,
+                success: false,
+                message: error.message,
+            };
+            context.sendToClient(response);
+        },
+    );
+}
+
+// Handle requests that target a synthesized Python frame.
+// Returns true if the request was answered here (debugpy is frozen while LLDB
+// holds the process, so these frames have no adapter to route to).
+export function handlePythonFrameRequest(context: StackContext, request: DapRequest): boolean {
+    const frameId = request.arguments?.frameId as number | undefined;
+    if (frameId === undefined || !context.stackState.pythonFrames.has(frameId)) {
+        return false;
+    }
+    const response: DapResponse = {
+        seq: context.session.clientSeq++,
+        type: "response",
+        request_seq: request.seq,
+        command: request.command,
+        success: request.command === "scopes",
+        body: request.command === "scopes" ? { scopes: [] } : undefined,
+        message: request.command === "scopes"
+            ? undefined
+            : "Python frames are read-only while the process is stopped in native code.",
+    };
+    context.sendToClient(response);
+    return true;
+}
+
+async function buildMergedStackResponse(
+    context: StackContext,
+    request: DapRequest,
+): Promise<DapResponse> {
+    const args = request.arguments ?? {};
+    const threadId = args.threadId as number;
+    const respond = (success: boolean, body?: Record<string, unknown>, message?: string): DapResponse => ({
+        seq: context.session.clientSeq++,
+        type: "response",
+        request_seq: request.seq,
+        command: request.command,
+        success,
+        message,
+        body,
+    });
+
+    let merged = context.stackState.mergedStacks.get(threadId);
+    if (!merged) {
+        const native = await requestFromLldb(context.lldbState, "stackTrace", { threadId });
+        if (!native.success) {
+            return respond(false, undefined, native.message);
+        }
+        // Source paths were already mapped to editor paths when the response arrived.
+        const frames = (native.body?.stackFrames as StackFrame[] | undefined) ?? [];
+        merged = await mergeFrames(context, threadId, frames);
+        context.stackState.mergedStacks.set(threadId, merged);
+    }
+
+    const startFrame = (args.startFrame as number | undefined) ?? 0;
+    const levels = (args.levels as number | undefined) ?? 0;
+    const end = levels > 0 ? startFrame + levels : merged.length;
+    return respond(true, {
+        stackFrames: merged.slice(startFrame, end),
+        totalFrames: merged.length,
+    });
+}
+
+// Interleave Python frames into LLDB's native stack.
+// Steps:
+// 1) Classify native frames (eval loop, interpreter internals, binding glue, user).
+// 2) Walk the thread's CPython frame chain from the stopped native frame.
+// 3) Replace eval-loop frames with Python frames, hide interpreter internals and
+//    give the remaining native frames client ids.
+async function mergeFrames(
+    context: StackContext,
+    threadId: number,
+    frames: StackFrame[],
+): Promise<StackFrame[]> {
+    const evalIndices = frames
+        .map((frame, index) => (EVAL_FRAME_PATTERN.test(frameFunctionName(frame)) ? index : -1))
+        .filter((index) => index >= 0);
+    if (evalIndices.length === 0 || frames.length === 0) {
+        return frames.map((frame) => toClientFrame(context, frame));
+    }
+
+    const pythonFrames = await readPythonFrames(context, frames[0].id);
+    if (pythonFrames.length === 0) {
+        // Could not read interpreter state; show the native stack unchanged.
+        return frames.map((frame) => toClientFrame(context, frame));
+    }
+
+    const counts = countFramesPerEvalLoop(pythonFrames, evalIndices.length);
+
+    const merged: StackFrame[] = [];
+    let evalOrdinal = 0;
+    let nextPython = 0;
+    for (const frame of frames) {
+        const name = frameFunctionName(frame);
+        if (EVAL_FRAME_PATTERN.test(name)) {
+            const count = counts[evalOrdinal++];
+            for (let i = 0; i < count && nextPython < pythonFrames.length; i += 1) {
+                merged.push(createPythonStackFrame(context, threadId, pythonFrames[nextPython++]));
+            }
+            continue;
+        }
+        if (INTERPRETER_FRAME_PATTERN.test(name)) {
+            continue;
+        }
+        merged.push(toClientFrame(context, frame));
+    }
+    return merged;
+}
+
+// Number of Python frames each eval-loop frame runs, innermost first.
+// Since CPython 3.11 one eval-loop frame can run several inlined Python frames;
+// the interpreter's entry frames tell which (see readPythonFrames). Without them,
+// every eval frame gets one Python frame and the innermost one the remainder.
+function countFramesPerEvalLoop(frames: PythonFrame[], evalCount: number): number[] {
+    const groups = frames.map((frame) => frame.group);
+    if (groups.every((group) => group !== undefined && group < evalCount)) {
+        const counts = new Array<number>(evalCount).fill(0);
+        for (const group of groups) {
+            counts[group as number] += 1;
+        }
+        return counts;
+    }
+    const counts = new Array<number>(evalCount).fill(1);
+    if (frames.length > evalCount) {
+        counts[0] += frames.length - evalCount;
+    } else {
+        for (let i = frames.length; i < counts.length; i += 1) {
+            counts[i] = 0;
+        }
+    }
+    return counts;
+}
+
+function createPythonStackFrame(
+    context: StackContext,
+    threadId: number,
+    frame: PythonFrame,
+): StackFrame {
+    const id = allocateProxyId(context.idState, "frame");
+    const localPath = context.lldbState.pathMapper.toClient(frame.path);
+    context.stackState.pythonFrames.set(id, { threadId, ...frame, path: localPath });
+    return {
+        id,
+        name: frame.name,
+        line: frame.line,
+        column: 1,
+        source: {
+            name: path.basename(localPath),
+            path: localPath,
+        },
+    };
+}
+
+// Native frames get client ids; synthesized Python frames already have proxy ids.
+function toClientFrame(context: StackContext, frame: StackFrame): StackFrame {
+    return translateToClient(context.idState, "lldb", markGlueFrame(frame), "stackFrames");
+}
+
+function markGlueFrame(frame: StackFrame): StackFrame {
+    if (!GLUE_FRAME_PATTERN.test(frameFunctionName(frame))) {
+        return frame;
+    }
+    // VS Code collapses runs of frames whose source is "deemphasize".
+    const source = (frame.source as Record<string, unknown> | undefined) ?? { name: "binding glue" };
+    return {
+        ...frame,
+        presentationHint: "subtle",
+        source: { ...source, presentationHint: "deemphasize" },
+    };
+}
+
+// Whether a native frame belongs to the interpreter or binding glue rather than user code.
+export function isInterpreterOrGlueFrame(frame: StackFrame): boolean {
+    const name = frameFunctionName(frame);
+    return (
+        EVAL_FRAME_PATTERN.test(name) ||
+        INTERPRETER_FRAME_PATTERN.test(name) ||
+        GLUE_FRAME_PATTERN.test(name)
+    );
+}
+
+// Whether a native function belongs to the interpreter itself (not binding glue).
+export function isInterpreterFunction(name: string): boolean {
+    return EVAL_FRAME_PATTERN.test(name) || INTERPRETER_FRAME_PATTERN.test(name);
+}
+
+function frameFunctionName(frame: StackFrame): string {
+    // lldb-dap may prefix names with the module ("libpython3.12.so`func").
+    const name = frame.name ?? "";
+    return name.slice(name.lastIndexOf("`") + 1).trim();
+}
+
+// Walk the stopped thread's Python frames by reading interpreter memory.
+// Steps:
+// 1) Find the thread state (a thread-local read, no allocation or locking).
+// 2) Follow the frame chain from the innermost frame, reading each frame's code
+//    object for the file and function name.
+// 3) Get the line from the frame with a C-API call that only reads memory.
+// 4) Since 3.11, number the eval-loop invocations from the entry frames (3.11
+//    `is_entry`) or the shim frames owned by the C stack (3.12+).
+async function readPythonFrames(
+    context: StackContext,
+    nativeFrameId: number,
+): Promise<PythonFrame[]> {
+    const minor = await getPythonMinor(context, nativeFrameId);
+    const layout = pythonFrameLayout(minor);
+    if (!layout) {
+        context.output.appendLine(`[proxy] Python frames not merged: unsupported CPython 3.${minor}.`);
+        return [];
+    }
+    const threadState = await evaluateNative(
+        context.lldbState,
+        nativeFrameId,
+        "(void*)PyGILState_GetThisThreadState()",
+    );
+    let current = parsePointer(threadState.result);
+    if (threadState.error) {
+        context.output.appendLine(`[proxy] Python frame lookup failed: ${threadState.error}`);
+    }
+    for (const offset of layout.topFramePath) {
+        current = current === undefined ? undefined : await readPointer(context, current + BigInt(offset));
+    }
+
+    const frames: PythonFrame[] = [];
+    const names = new Map<bigint, { path: string; name: string }>();
+    let group = 0;
+    let groupHasFrames = false;
+    for (let steps = 0; current !== undefined && steps < 4 * MAX_PYTHON_FRAMES; steps += 1) {
+        if (frames.length >= MAX_PYTHON_FRAMES) {
+            break;
+        }
+        const bytes = await readNativeMemory(context.lldbState, current, layout.size);
+        if (!bytes || bytes.length < layout.size) {
+            break;
+        }
+        const isShim =
+            layout.ownerOffset !== undefined &&
+            layout.isEntryOffset === undefined &&
+            bytes.readUInt8(layout.ownerOffset) === FRAME_OWNED_BY_CSTACK;
+        if (!isShim) {
+            // 3.14 tags the f_executable stack reference in its low bits.
+            const code = bytes.readBigUInt64LE(layout.codeOffset) & ~7n;
+            const codeNames = names.get(code) ?? (await readCodeNames(context, minor, layout, code));
+            if (!codeNames) {
+                break;
+            }
+            names.set(code, codeNames);
+            const line = await readFrameLine(context, nativeFrameId, minor, layout, current, code, bytes);
+            frames.push({ ...codeNames, line, group: layout.ownerOffset === undefined ? undefined : group });
+            groupHasFrames = true;
+        }
+        const isEntry = layout.isEntryOffset !== undefined && bytes.readUInt8(layout.isEntryOffset) !== 0;
+        if ((isShim || isEntry) && groupHasFrames) {
+            group += 1;
+            groupHasFrames = false;
+        }
+        const previous = bytes.readBigUInt64LE(layout.previousOffset);
+        current = previous === 0n ? undefined : previous;
+    }
+    return frames;
+}
+
+async function getPythonMinor(context: StackContext, nativeFrameId: number): Promise<number> {
+    if (context.stackState.pythonMinor === undefined) {
+        const evaluated = await evaluateNative(context.lldbState, nativeFrameId, "*(unsigned int *)&Py_Version");
+        const version = Number(/\d+/.exec(evaluated.result ?? "")?.[0]);
+        // Without Py_Version the interpreter predates 3.11.
+        context.stackState.pythonMinor = Number.isInteger(version) && version > 0 ? (version >> 16) & 0xff : 10;
+    }
+    return context.stackState.pythonMinor;
+}
+
+function pythonFrameLayout(minor: number): PythonFrameLayout | undefined {
+    if (minor === 10) {
+        return {
+            topFramePath: [24],
+            previousOffset: 24,
+            codeOffset: 32,
+            size: 40,
+            filenameOffset: 104,
+            nameOffset: 112,
+        };
+    }
+    const code = { filenameOffset: 112, nameOffset: 120 };
+    if (minor === 11) {
+        return {
+            topFramePath: [56, 8],
+            previousOffset: 48,
+            codeOffset: 32,
+            instructionOffset: 56,
+            codeUnitsOffset: 184,
+            isEntryOffset: 68,
+            ownerOffset: 69,
+            size: 70,
+            ...code,
+        };
+    }
+    if (minor === 12 || minor === 13) {
+        return {
+            topFramePath: minor === 12 ? [56, 0] : [72],
+            previousOffset: 8,
+            codeOffset: 0,
+            ownerOffset: 70,
+            size: 71,
+            ...code,
+        };
+    }
+    if (minor === 14) {
+        return { topFramePath: [64], previousOffset: 8, codeOffset: 0, ownerOffset: 74, size: 75, ...code };
+    }
+    return undefined;
+}
+
+async function readCodeNames(
+    context: StackContext,
+    minor: number,
+    layout: PythonFrameLayout,
+    code: bigint,
+): Promise<{ path: string; name: string } | undefined> {
+    const filename = await readPointer(context, code + BigInt(layout.filenameOffset));
+    const name = await readPointer(context, code + BigInt(layout.nameOffset));
+    const path = filename === undefined ? undefined : await readUnicode(context, minor, filename);
+    const text = name === undefined ? undefined : await readUnicode(context, minor, name);
+    return path === undefined || text === undefined ? undefined : { path, name: text };
+}
+
+// The frame's current line. The API functions used only read the frame and the
+// code object's line table.
+async function readFrameLine(
+    context: StackContext,
+    nativeFrameId: number,
+    minor: number,
+    layout: PythonFrameLayout,
+    frame: bigint,
+    code: bigint,
+    bytes: Buffer,
+): Promise<number> {
+    let expression: string;
+    if (minor === 10) {
+        expression = `(int)PyFrame_GetLineNumber((void*)0x${frame.toString(16)})`;
+    } else if (layout.instructionOffset !== undefined && layout.codeUnitsOffset !== undefined) {
+        const offset = bytes.readBigUInt64LE(layout.instructionOffset) - code - BigInt(layout.codeUnitsOffset);
+        expression = `(int)PyCode_Addr2Line((void*)0x${code.toString(16)}, ${offset.toString()})`;
+    } else {
+        expression = `(int)PyUnstable_InterpreterFrame_GetLine((void*)0x${frame.toString(16)})`;
+    }
+    const evaluated = await evaluateNative(context.lldbState, nativeFrameId, expression);
+    const line = Number(/-?\d+\s*$/.exec(evaluated.result ?? "")?.[0]);
+    return Number.isInteger(line) && line > 0 ? line : 1;
+}
+
+async function readPointer(context: StackContext, address: bigint): Promise<bigint | undefined> {
+    const bytes = await readNativeMemory(context.lldbState, address, 8);
+    const value = bytes && bytes.length === 8 ? bytes.readBigUInt64LE(0) : 0n;
+    return value === 0n ? undefined : value;
+}
+
+// Read a compact str object (code object names always are).
+async function readUnicode(context: StackContext, minor: number, address: bigint): Promise<string | undefined> {
+    const header = await readNativeMemory(context.lldbState, address, 36);
+    if (!header || header.length < 36) {
+        return undefined;
+    }
+    const length = Math.min(Number(header.readBigInt64LE(16)), MAX_CODE_STRING_CHARS);
+    // state bitfield: interned:2, kind:3, compact:1, ascii:1.
+    const state = header.readUInt32LE(32);
+    const kind = (state >> 2) & 7;
+    const ascii = (state >> 6) & 1;
+    if (!((state >> 5) & 1) || (kind !== 1 && kind !== 2 && kind !== 4) || length < 0) {
+        return undefined;
+    }
+    const headerSize = ascii ? (minor >= 12 ? 40 : 48) : (minor >= 12 ? 56 : 72);
+    const data = length === 0
+        ? Buffer.alloc(0)
+        : await readNativeMemory(context.lldbState, address + BigInt(headerSize), length * kind);
+    if (!data || data.length < length * kind) {
+        return undefined;
+    }
+    if (kind === 1) {
+        return data.toString("latin1");
+    }
+    if (kind === 2) {
+        return data.toString("utf16le");
+    }
+    const codes: number[] = [];
+    for (let i = 0; i < length; i += 1) {
+        codes.push(Math.min(data.readUInt32LE(i * 4), 0x10ffff));
+    }
+    return String.fromCodePoint(...codes);
+}
@@ -0,0 +1,262 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { DapEvent, DapMessage, DapRequest } from "./data_types";
+import { DebugpyState, LldbState, SessionState, StepState } from "./proxy_types";
+import { evaluatePython, parsePythonStr, requestFromDebugpy } from "./proxy_debugpy";
+import { requestFromLldb, runLldbCommand } from "./proxy_lldb";
+import { StackFrame, isInterpreterOrGlueFrame } from "./proxy_stack";
+
+export type SteppingContext = {
+    session: SessionState;
+    debugpyState: DebugpyState;
+    lldbState: LldbState;
+    stepState: StepState;
+    config: vscode.DebugConfiguration;
+    output: vscode.OutputChannel;
+    sendToClient: (message: DapMessage) => void;
+    forwardClientRequestToDebugpy: (request: DapRequest, responseCommand?: string) => void;
+    forwardClientRequestToLldb: (request: DapRequest, responseCommand?: string) => void;
+};
+
+type NativeCallee = { name: string; module: string };
+
+// Upper bound for call expressions classified on one Python line.
+const MAX_CALLEES_PER_LINE = 8;
+// Identifiers followed by "(" that are syntax rather than calls.
+const PYTHON_KEYWORDS = new Set([
+    "and", "assert", "await", "del", "elif", "for", "if", "in", "is", "lambda",
+    "not", "or", "return", "while", "with", "yield",
+]);
+const EXTENSION_MODULE_PATTERN = /\.(so|pyd|dylib)$/i;
+
+export function createStepState(): StepState {
+    return { armedBreakpointIds: [] };
+}
+
+// Cross-language stepping needs an attached LLDB; it can be turned off per session.
+function isCrossLanguageSteppingEnabled(context: SteppingContext): boolean {
+    return (
+        context.config.crossLanguageStepping !== false &&
+        context.lldbState.available &&
+        context.lldbState.sessionStarted
+    );
+}
+
+// Step Into on a Python line that calls into an extension module.
+// Steps:
+// 1) Find the calls on the current line whose callee lives in an extension module.
+// 2) Arm a one-shot LLDB breakpoint on each matching C++ function.
+// 3) Forward the stepIn to debugpy: a Python callee stops in debugpy as usual,
+//    a native callee stops in LLDB and the active adapter switches with it.
+export function handlePythonStepIn(context: SteppingContext, request: DapRequest): void {
+    if (!isCrossLanguageSteppingEnabled(context)) {
+        context.forwardClientRequestToDebugpy(request);
+        return;
+    }
+    void armNativeStepIn(context, request)
+        .catch((error) => {
+            context.output.appendLine(
+                `[proxy] cross-language step in skipped: ${error instanceof Error ? error.message : String(error)}`,
+            );
+        })
+        .then(() => context.forwardClientRequestToDebugpy(request));
+}
+
+// Step Out of the bound C++ function entered by a cross-language step in.
+// Steps:
+// 1) Check the caller frame: binding glue or interpreter means "back to Python".
+// 2) Resume LLDB; debugpy's pending stepIn then stops on the calling Python code.
+// 3) Otherwise step out in LLDB as usual.
+export function handleNativeStepOut(context: SteppingContext, request: DapRequest): void {
+    const threadId = request.arguments?.threadId as number | undefined;
+    if (
+        threadId === undefined ||
+        context.stepState.nativeStepThreadId !== threadId ||
+        request.arguments?.granularity === "instruction"
+    ) {
+        // Instruction stepping (Disassembly view) stays in native code.
+        context.forwardClientRequestToLldb(request);
+        return;
+    }
+    void returnsToPython(context, threadId).then((toPython) => {
+        if (!toPython) {
+            context.forwardClientRequestToLldb(request);
+            return;
+        }
+        context.output.appendLine("[proxy] stepping out of native code back to Python.");
+        context.stepState.nativeStepThreadId = undefined;
+        context.forwardClientRequestToLldb(
+            { ...request, command: "continue", arguments: { threadId } },
+            request.command,
+        );
+    });
+}
+
+// LLDB stopped: a hit on an armed breakpoint completes the cross-language step in.
+export function onNativeStopped(context: SteppingContext, event: DapEvent): void {
+    const { stepState } = context;
+    if (stepState.armedBreakpointIds.length === 0) {
+        return;
+    }
+    const hitIds = (event.body?.hitBreakpointIds as number[] | undefined) ?? [];
+    const armedHit = hitIds.length > 0
+        ? hitIds.some((id) => stepState.armedBreakpointIds.includes(id))
+        : event.body?.reason === "breakpoint";
+    if (armedHit) {
+        stepState.nativeStepThreadId = event.body?.threadId as number | undefined;
+    }
+    disarmNativeStepIn(context);
+}
+
+// debugpy stopped: the step ended in Python, so native stepping state is stale.
+export function onPythonStopped(context: SteppingContext): void {
+    context.stepState.nativeStepThreadId = undefined;
+    disarmNativeStepIn(context);
+}
+
+async function armNativeStepIn(context: SteppingContext, request: DapRequest): Promise<void> {
+    const threadId = request.arguments?.threadId as number | undefined;
+    if (threadId === undefined) {
+        return;
+    }
+    const stack = await requestFromDebugpy(context.debugpyState, "stackTrace", {
+        threadId,
+        startFrame: 0,
+        levels: 1,
+    });
+    const frame = (stack.body?.stackFrames as StackFrame[] | undefined)?.[0];
+    const sourcePath = (frame?.source as { path?: string } | undefined)?.path;
+    if (!stack.success || !frame || !sourcePath || typeof frame.line !== "number") {
+        return;
+    }
+    const lineText = await readSourceLine(sourcePath, frame.line);
+    if (lineText === undefined) {
+        return;
+    }
+
+    for (const callee of findCallExpressions(lineText)) {
+        const native = await classifyCallee(context, frame.id, callee);
+        if (native) {
+            await armNativeBreakpoint(context, native);
+        }
+    }
+}
+
+// Resolve a call expression to the extension module that implements it, if any.
+async function classifyCallee(
+    context: SteppingContext,
+    frameId: number,
+    callee: string,
+): Promise<NativeCallee | undefined> {
+    // Attributes are looked up with inspect.getattr_static, so properties and
+    // __getattr__ never run; only the leading plain name is evaluated. Names and
+    // modules are read from function and type objects only. Methods report their
+    // module through the owning type.
+    const [root, ...attributes] = callee.split(".");
+    const expression =
+        "(lambda __i, __j: (lambda __o, __f: __j.dumps([" +
+        "getattr(getattr(__f, '__func__', __f), '__name__', None), " +
+        "getattr(__import__('sys').modules.get(getattr(__f, '__module__', None) or " +
+        "(__o.__name__ if isinstance(__o, type(__i)) else (__o if isinstance(__o, type) else type(__o)).__module__)), " +
+        "'__file__', None)" +
+        "] if isinstance(__f, (type(len), type(lambda: 0), type)) or " +
+        "type(__f).__name__ in ('instancemethod', 'nb_func', 'nb_method') else [None, None]))" +
+        "(*(lambda __p: (__p[0], __p[1].__func__ if isinstance(__p[1], (staticmethod, classmethod)) else __p[1]))(" +
+        "__import__('functools').reduce(lambda __a, __n: (__a[1], __i.getattr_static(__a[1], __n)), " +
+        `${JSON.stringify(attributes)}, (None, ${root})))))` +
+        "(__import__('inspect'), __import__('json'))";
+    const evaluated = await evaluatePython(context.debugpyState, frameId, expression);
+    const text = parsePythonStr(evaluated.result);
+    if (!text) {
+        return undefined;
+    }
+    try {
+        const [name, moduleFile] = JSON.parse(text) as [unknown, unknown];
+        if (
+            typeof name !== "string" ||
+            !/^\w+$/.test(name) ||
+            typeof moduleFile !== "string" ||
+            !EXTENSION_MODULE_PATTERN.test(moduleFile)
+        ) {
+            return undefined;
+        }
+        return { name, module: moduleFile };
+    } catch {
+        return undefined;
+    }
+}
+
+// Arm a one-shot breakpoint on C++ functions named like the Python callable
+// ("compute" matches "compute(...)", "ns::compute(...)" and constructors of "compute").
+async function armNativeBreakpoint(context: SteppingContext, callee: NativeCallee): Promise<void> {
+    const moduleName = path.basename(callee.module.replace(/\\/g, "/"));
+    const created = await runLldbCommand(
+        context.lldbState,
+        undefined,
+        `breakpoint set --one-shot true --func-regex '(^|::)${callee.name}(\\(|$)' --shlib '${moduleName}'`,
+    );
+    const id = Number(/Breakpoint (\d+):/.exec(created.result ?? "")?.[1]);
+    if (!Number.isInteger(id)) {
+        context.output.appendLine(
+            `[proxy] no native step target for ${callee.name}: ${created.error ?? created.result ?? ""}`,
+        );
+        return;
+    }
+    if (/no locations/i.test(created.result ?? "")) {
+        void runLldbCommand(context.lldbState, undefined, `breakpoint delete ${id}`);
+        return;
+    }
+    context.stepState.armedBreakpointIds.push(id);
+    context.output.appendLine(`[proxy] armed native step target ${callee.name} in ${moduleName}.`);
+}
+
+function disarmNativeStepIn(context: SteppingContext): void {
+    const ids = context.stepState.armedBreakpointIds;
+    if (ids.length === 0) {
+        return;
+    }
+    context.stepState.armedBreakpointIds = [];
+    // One-shot breakpoints that fired are already gone; deleting them again is harmless.
+    void runLldbCommand(context.lldbState, undefined, `breakpoint delete ${ids.join(" ")}`);
+}
+
+async function returnsToPython(context: SteppingContext, threadId: number): Promise<boolean> {
+    const stack = await requestFromLldb(context.lldbState, "stackTrace", {
+        threadId,
+        startFrame: 0,
+        levels: 2,
+    });
+    const caller = (stack.body?.stackFrames as StackFrame[] | undefined)?.[1];
+    return stack.success && caller !== undefined && isInterpreterOrGlueFrame(caller);
+}
+
+async function readSourceLine(sourcePath: string, line: number): Promise<string | undefined> {
+    try {
+        const text = await fs.promises.readFile(sourcePath, "utf8");
+        return text.split(/\r?\n/)[line - 1];
+    } catch {
+        // Remote or generated source; fall back to a plain Python step.
+        return undefined;
+    }
+}
+
+// Extract call expressions ("f", "mod.f", "obj.method") from one Python line.
+function findCallExpressions(lineText: string): string[] {
+    if (/^\s*(async\s+)?(def|class)\b/.test(lineText)) {
+        return [];
+    }
+    const code = lineText
+        .replace(/"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'/g, "\"\"")
+        .replace(/#.*$/, "");
+    const callees: string[] = [];
+    const pattern = /([A-Za-z_]\w*(?:\s*\.\s*[A-Za-z_]\w*)*)\s*\(/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(code)) && callees.length < MAX_CALLEES_PER_LINE) {
+        const callee = match[1].replace(/\s+/g, "");
+        if (!PYTHON_KEYWORDS.has(callee) && !callees.includes(callee)) {
+            callees.push(callee);
+        }
+    }
+    return callees;
+}
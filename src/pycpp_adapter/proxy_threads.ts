@@ -0,0 +1,200 @@
+import { DapEvent, DapMessage, DapRequest, DapResponse } from "./data_types";
+import { DebugpyState, IdState, LldbState, SessionState, ThreadState } from "./proxy_types";
+import { linkThreadIds, toClientId } from "./proxy_ids";
+import { evaluatePython, requestFromDebugpy } from "./proxy_debugpy";
+import { requestFromLldb } from "./proxy_lldb";
+import { StackFrame } from "./proxy_stack";
+
+export type ThreadContext = {
+    session: SessionState;
+    debugpyState: DebugpyState;
+    lldbState: LldbState;
+    idState: IdState;
+    threadState: ThreadState;
+    sendToClient: (message: DapMessage) => void;
+    forwardClientRequestToDebugpy: (request: DapRequest) => void;
+};
+
+type Thread = { id: number; name: string };
+
+// OS thread id of the thread that evaluates it: debugpy runs an evaluation on the
+// suspended thread that owns the frame.
+const NATIVE_ID_EXPRESSION = "__import__('threading').get_native_id()";
+
+export function createThreadState(): ThreadState {
+    return { nativeIds: new Map(), pythonThreadNames: new Map(), nativeOnlyThreadIds: new Set() };
+}
+
+// Answer `threads` with one entry per OS thread.
+// Steps:
+// 1) Stopped in Python: list debugpy's threads, read the OS thread id of each one
+//    not seen before (debugpy's thread ids carry no OS identity) and join them with
+//    LLDB's threads, whose ids are OS thread ids; the others are native-only.
+// 2) Stopped in C/C++: debugpy cannot answer, so list LLDB's threads and name them
+//    with the Python names recorded at the last Python stop.
+// 3) Mark native-only threads with a "[native]" prefix. A Python thread and its
+//    OS thread share one client id.
+export function handleThreads(context: ThreadContext, request: DapRequest): void {
+    const merged = context.session.activeAdapter === "lldb"
+        ? mergeFromLldb(context)
+        : mergeFromDebugpy(context);
+    const respond = (success: boolean, body?: Record<string, unknown>, message?: string): void => {
+        const response: DapResponse = {
+            seq: context.session.clientSeq++,
+            type: "response",
+            request_seq: request.seq,
+            command: request.command,
+            success,
+            message,
+            body,
+        };
+        context.sendToClient(response);
+    };
+    void merged.then(
+        (threads) => respond(true, { threads }),
+        (error: Error) => respond(false, undefined, error.message),
+    );
+}
+
+// Requests for a native-only thread while Python is stopped.
+// debugpy does not know these threads: their stack is empty and execution
+// requests act on the stopped Python thread instead.
+export function handleNativeOnlyThreadRequest(context: ThreadContext, request: DapRequest): boolean {
+    const threadId = request.arguments?.threadId as number | undefined;
+    const { threadState } = context;
+    if (
+        context.session.activeAdapter !== "debugpy" ||
+        threadId === undefined ||
+        !threadState.nativeOnlyThreadIds.has(threadId)
+    ) {
+        return false;
+    }
+    if (request.command === "stackTrace") {
+        const response: DapResponse = {
+            seq: context.session.clientSeq++,
+            type: "response",
+            request_seq: request.seq,
+            command: request.command,
+            success: true,
+            body: { stackFrames: [], totalFrames: 0 },
+        };
+        context.sendToClient(response);
+        return true;
+    }
+    if (threadState.pythonStopThreadId === undefined) {
+        return false;
+    }
+    context.forwardClientRequestToDebugpy({
+        ...request,
+        arguments: { ...request.arguments, threadId: threadState.pythonStopThreadId },
+    });
+    return true;
+}
+
+// debugpy stopped: its threads are suspended and can report their OS ids.
+export function onPythonThreadStopped(context: ThreadContext, event: DapEvent): void {
+    context.threadState.pythonStopThreadId = event.body?.threadId as number | undefined;
+}
+
+export function onThreadsResumed(context: ThreadContext): void {
+    context.threadState.pythonStopThreadId = undefined;
+}
+
+async function mergeFromDebugpy(context: ThreadContext): Promise<Thread[]> {
+    const { threadState } = context;
+    const [pythonResponse, lldbThreads] = await Promise.all([
+        requestFromDebugpy(context.debugpyState, "threads"),
+        readLldbThreads(context),
+    ]);
+    const pythonThreads = (pythonResponse.body?.threads as Thread[] | undefined) ?? [];
+    const listed = new Set(pythonThreads.map((thread) => thread.id));
+    for (const threadId of threadState.nativeIds.keys()) {
+        if (!listed.has(threadId)) {
+            // The thread ended.
+            threadState.nativeIds.delete(threadId);
+        }
+    }
+    if (threadState.pythonStopThreadId !== undefined) {
+        for (const thread of pythonThreads) {
+            if (!threadState.nativeIds.has(thread.id)) {
+                await readNativeId(context, thread.id);
+            }
+        }
+    }
+
+    threadState.pythonThreadNames.clear();
+    const pythonOsIds = new Set<number>();
+    const threads = pythonThreads.map((thread) => {
+        const osId = threadState.nativeIds.get(thread.id);
+        if (osId === undefined) {
+            return { ...thread, id: toClientId(context.idState, "thread", "debugpy", thread.id) };
+        }
+        pythonOsIds.add(osId);
+        threadState.pythonThreadNames.set(osId, thread.name);
+        return {
+            id: linkThreadIds(context.idState, thread.id, osId),
+            name: `${thread.name} (TID ${osId})`,
+        };
+    });
+
+    threadState.nativeOnlyThreadIds.clear();
+    for (const thread of lldbThreads) {
+        if (!pythonOsIds.has(thread.id)) {
+            threadState.nativeOnlyThreadIds.add(thread.id);
+            threads.push({
+                id: toClientId(context.idState, "thread", "lldb", thread.id),
+                name: nativeThreadName(thread),
+            });
+        }
+    }
+    return threads;
+}
+
+async function mergeFromLldb(context: ThreadContext): Promise<Thread[]> {
+    const { threadState, session } = context;
+    threadState.nativeOnlyThreadIds.clear();
+    return (await readLldbThreads(context)).map((thread) => {
+        // LLDB thread ids are OS thread ids; the process id is the main thread on Linux.
+        const pythonName = threadState.pythonThreadNames.get(thread.id) ??
+            (thread.id === session.debuggeePid ? "MainThread" : undefined);
+        const id = toClientId(context.idState, "thread", "lldb", thread.id);
+        return pythonName
+            ? { id, name: `${pythonName} (TID ${thread.id})` }
+            : { id, name: nativeThreadName(thread) };
+    });
+}
+
+// Read a debugpy thread's OS thread id in its top frame. Threads that are not
+// suspended have no frames and stay unlinked until a later stop.
+async function readNativeId(context: ThreadContext, threadId: number): Promise<void> {
+    const stack = await requestFromDebugpy(context.debugpyState, "stackTrace", {
+        threadId,
+        startFrame: 0,
+        levels: 1,
+    });
+    const frame = (stack.body?.stackFrames as StackFrame[] | undefined)?.[0];
+    if (!stack.success || !frame) {
+        return;
+    }
+    const evaluated = await evaluatePython(context.debugpyState, frame.id, NATIVE_ID_EXPRESSION);
+    const osId = Number(evaluated.result);
+    if (evaluated.error === undefined && Number.isInteger(osId) && osId > 0) {
+        context.threadState.nativeIds.set(threadId, osId);
+    }
+}
+
+// LLDB's thread list; empty when LLDB is absent or cannot list a running process.
+async function readLldbThreads(context: ThreadContext): Promise<Thread[]> {
+    if (!context.lldbState.sessionStarted) {
+        return [];
+    }
+    const response = await requestFromLldb(context.lldbState, "threads");
+    return response.success ? ((response.body?.threads as Thread[] | undefined) ?? []) : [];
+}
+
+function nativeThreadName(thread: Thread): string {
+    // CodeLLDB names already carry the thread id; unnamed threads get a generic name.
+    const base = thread.name || `Thread ${thread.id}`;
+    const name = base.includes(String(thread.id)) ? base : `${base} (TID ${thread.id})`;
+    return `[native] ${name}`;
+}
@@ -1,5 +1,14 @@
 import * as utils from "./utils";
-import { PendingSetBreakpoints, PendingSetBreakpointsPart } from "./data_types";
+import {
+    DapEvent,
+    DapResponse,
+    ExceptionFilterOption,
+    FunctionBreakpoint,
+    PendingSetBreakpoints,
+    PendingSetBreakpointsPart,
+    SourceBreakpoint,
+} from "./data_types";
+import { PathMapper } from "./proxy_paths";
 
 export type DebugpyState = {
     seq: number;
@@ -7,27 +16,214 @@ export type DebugpyState = {
     pendingSetBreakpoints: Map<number, PendingSetBreakpointsPart>;
     pendingSyntheticConfigDone: Set<number>;
     pendingClientRequests: Map<number, { clientSeq: number; command: string }>;
+    // Proxy-originated requests awaiting a response (see requestFromDebugpy).
+    pendingInternalRequests: Map<number, (response: DapResponse) => void>;
 };
 
 export type LldbState = {
     seq: number;
     connection?: utils.DapConnection;
+    // CodeLLDB and lldb-dap differ in how native expressions are evaluated.
+    flavor: "codelldb" | "lldb-dap";
     available: boolean;
     attachRequested: boolean;
     sessionStarted: boolean;
     pendingSetBreakpoints: Map<number, PendingSetBreakpointsPart>;
     pendingRequests: Map<number, string>;
     pendingClientRequests: Map<number, { clientSeq: number; command: string }>;
-    pendingRefresh: Map<number, { sourcePath: string; lines: number[] }>;
+    pendingRefresh: Map<number, { sourcePath: string; breakpoints: SourceBreakpoint[] }>;
+    // Re-applied function/data breakpoints, announced to VS Code as "changed" events.
+    pendingRefreshEvents: Set<number>;
     pendingConfigDone: Set<number>;
+    // Proxy-originated requests awaiting a response (see requestFromLldb).
+    pendingInternalRequests: Map<number, (response: DapResponse) => void>;
+    // Editor <-> debuggee source paths for LLDB (pathMappings, sourceMap, realpath).
+    pathMapper: PathMapper;
 };
 
 export type BreakpointState = {
     pendingSetBreakpoints: Map<number, PendingSetBreakpoints>;
-    jitBreakpointCache: Map<string, number[]>;
+    jitBreakpointCache: Map<string, SourceBreakpoint[]>;
+    // C++ function breakpoints (names, regex: and module: forms), re-applied after attach.
+    functionBreakpointCache: FunctionBreakpoint[];
+    // LLDB breakpoints created by command for regex:/module: function breakpoints.
+    commandBreakpointIds: number[];
+    // Serializes replacements of the command-created breakpoints.
+    commandBreakpointQueue: Promise<void>;
+    // LLDB data breakpoints (watchpoints), re-applied after attach.
+    dataBreakpointCache: Array<Record<string, unknown>>;
+    // LLDB instruction breakpoints, re-applied after attach.
+    instructionBreakpointCache: Array<Record<string, unknown>>;
+    // Native exception filters (without namespace), re-applied after attach.
+    exceptionFilterCache?: ExceptionFilterSelection;
     entryLineBreakpoints: Map<string, boolean>;
 };
 
+export type ExceptionFilterSelection = {
+    filters: string[];
+    filterOptions: ExceptionFilterOption[];
+};
+
+export type NativeThrowSite = {
+    // Thrown C++ type, when it could be read from the throw call.
+    typeName?: string;
+    // Native frames from the throw site outwards (throw machinery skipped).
+    frames: Array<{ name: string; path?: string; line?: number }>;
+};
+
+export type ExceptionState = {
+    // LLDB breakpoint on the C++ throw entry point used to record throw sites.
+    throwBreakpointId?: number;
+    // Most recent C++ throw seen since Python last stopped.
+    lastThrow?: NativeThrowSite;
+    // Throw site linked to the current Python exception stop.
+    linkedThrow?: NativeThrowSite;
+    // Description of the last native stop, for adapters without exceptionInfo.
+    lastNativeStop?: { description?: string; text?: string };
+};
+
+export type CapabilityState = {
+    debugpyCapabilities?: Record<string, unknown>;
+    lldbCapabilities?: Record<string, unknown>;
+    lldbInitializeDone: boolean;
+    // debugpy's initialize response, held until LLDB's capabilities arrive.
+    debugpyInitializeResponse?: DapResponse;
+    initializeTimer?: NodeJS.Timeout;
+};
+
+export type StackState = {
+    // Merged native + Python stacks per thread, cached until the process resumes.
+    mergedStacks: Map<number, Array<Record<string, unknown>>>;
+    // Python frames synthesized into merged stacks, keyed by their proxy client frame id.
+    pythonFrames: Map<number, { threadId: number; path: string; line: number; name: string }>;
+    // CPython minor version of the debuggee, read at the first merge.
+    pythonMinor?: number;
+};
+
+export type StepState = {
+    // One-shot LLDB breakpoints armed by a cross-language step into native code.
+    armedBreakpointIds: number[];
+    // Thread that stopped in the bound C++ function after a cross-language step in.
+    nativeStepThreadId?: number;
+};
+
+// Data pointer, size and writability of a Python object's buffer.
+export type PythonBuffer = { address: bigint; length: number; readonly: boolean };
+
+export type MemoryState = {
+    // Python frame owning each debugpy variablesReference, for buffer memory references.
+    frameOfReference: Map<number, number>;
+    // Frame (and evaluated expression) of in-flight scopes/variables/evaluate requests, by client seq.
+    pendingFrames: Map<number, { frameId: number; expression?: string }>;
+    // Resolved buffers by "python:" memory reference, so paging does not resolve them again.
+    buffers: Map<string, PythonBuffer>;
+};
+
+export type ThreadState = {
+    // OS thread id of each debugpy thread, read once per thread.
+    nativeIds: Map<number, number>;
+    // Python thread names by OS thread id, recorded at the last Python stop.
+    pythonThreadNames: Map<number, string>;
+    // OS threads without a Python thread, listed in the last merged thread list.
+    nativeOnlyThreadIds: Set<number>;
+    // Thread of the current debugpy stop, cleared on resume.
+    pythonStopThreadId?: number;
+};
+
+export type PauseState = {
+    // A Python pause was requested and debugpy has not stopped yet.
+    awaitingPythonStop?: boolean;
+    // debugpy thread named by the pause request.
+    pythonPauseThreadId?: number;
+    // Fallback timer that pauses through LLDB.
+    timer?: NodeJS.Timeout;
+    // debugpy still holds a pause request that must be cancelled when native code resumes.
+    cancelPythonPause?: boolean;
+};
+
+// CPython object layout details that differ between interpreter versions (64-bit builds).
+export type PythonLayout = {
+    minor: number;
+    // Offset of the character data of compact ASCII / compact non-ASCII str objects.
+    asciiHeaderSize: number;
+    compactHeaderSize: number;
+    // Offset of ob_item in PyTupleObject (3.14 caches the hash before it).
+    tupleItemsOffset: number;
+};
+
+export type PythonTypeInfo = { name: string; flags: bigint };
+
+export type PyObjectState = {
+    layout?: PythonLayout;
+    // Type objects read during the current LLDB stop, by address.
+    types: Map<bigint, PythonTypeInfo>;
+    // Proxy variablesReference -> address of an expanded Python container.
+    references: Map<number, bigint>;
+};
+
+// A Python value that debugpy can expand, addressed by an expression in its frame.
+export type PythonObjectRef = { frameId: number; expression: string };
+
+// The C++ instance behind a pybind11/nanobind object.
+export type NativeInstance = { address: string; pythonType: string };
+
+// A proxy variablesReference in a "[native]" subtree: the wrapped instance (its
+// C++ type is resolved on first expansion) or an LLDB expression for a member.
+export type NativeViewReference = { instance?: NativeInstance; expression?: string };
+
+export type NativeViewState = {
+    // Frame and expression of in-flight variables/evaluate requests to debugpy, by client seq.
+    pendingRequests: Map<number, { frameId: number; expression?: string; variablesReference?: number }>;
+    // debugpy variablesReference -> the Python object it expands.
+    objects: Map<number, PythonObjectRef>;
+    // Wrapped C++ instance per object ("frameId:expression"); null for plain Python objects.
+    instances: Map<string, NativeInstance | null>;
+    references: Map<number, NativeViewReference>;
+    // Serializes reads that briefly stop the process through LLDB.
+    queue: Promise<void>;
+    // An internal LLDB pause is waiting for its stopped event.
+    awaitingStop?: (event: DapEvent) => void;
+    // An internal resume is in flight: its continued events are not shown to the client.
+    silentContinue?: boolean;
+};
+
+// A Python value evaluated through LLDB while stopped in native code; expanding it
+// evaluates its expression again in the same frame.
+export type NativePythonReference = {
+    // LLDB frame whose thread runs the evaluation (undefined: the selected thread).
+    frameId?: number;
+    // Python frames to skip from the innermost one of that thread.
+    depth: number;
+    expression: string;
+};
+
+export type NativePythonState = {
+    references: Map<number, NativePythonReference>;
+};
+
+export type AdapterName = "debugpy" | "lldb";
+
+export type AdapterRunState = {
+    state: "running" | "stopped" | "exited";
+    // Adapter thread of the stop shown to the UI.
+    threadId?: number;
+};
+
+export type RunState = Record<AdapterName, AdapterRunState>;
+
+// Client-visible ids that need an owning adapter to be resolved.
+export type IdKind = "thread" | "frame" | "variables" | "source" | "breakpoint";
+
+export type IdTable = {
+    nextId: number;
+    // "<adapter>:<adapter id>" -> client id.
+    toClient: Map<string, number>;
+    // Client id -> adapter ids (threads can be known to both adapters).
+    fromClient: Map<number, Partial<Record<AdapterName, number>>>;
+};
+
+export type IdState = Record<IdKind, IdTable>;
+
 export type SessionState = {
     clientSeq: number;
     activeAdapter: "debugpy" | "lldb";
@@ -40,6 +236,10 @@ export type SessionState = {
     shutdownLldbTimer?: NodeJS.Timeout;
     shutdownDebugpyTimer?: NodeJS.Timeout;
     debuggeePid?: number;
+    // True for "request": "attach" sessions; the debuggee outlives the session by default.
+    attachedToRunningProcess: boolean;
+    // The debuggee runs on another machine (LLDB over TCP or a remote platform).
+    remoteDebuggee: boolean;
     clientClosed: boolean;
     shutdownDebugpyDispatched: boolean;
     terminatedEventSeen: boolean;
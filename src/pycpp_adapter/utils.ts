@@ -1,9 +1,10 @@
 import * as childProcess from "child_process";
 import * as fs from "fs";
+import * as net from "net";
 import * as path from "path";
 import * as vscode from "vscode";
 import * as conf from "../config";
-import { DebugAdapterCommand, DapMessage } from "./data_types";
+import { AdapterEndpoint, DebugAdapterCommand, DapMessage } from "./data_types";
 
 
 // A tiny DAP frame parser/writer (Content-Length + JSON). 
@@ -91,6 +92,29 @@ export function normalizeSourcePath(pathValue: string | undefined): string | und
     return pathValue;
 }
 
+export function globToRegExp(glob: string): RegExp {
+    // Minimal glob support: "**" spans directories, "*" and "?" stay within one segment.
+    const normalized = glob.replace(/\\/g, "/");
+    let pattern = "";
+    for (let i = 0; i < normalized.length; i += 1) {
+        const char = normalized[i];
+        if (char === "*" && normalized[i + 1] === "*" && normalized[i + 2] === "/") {
+            pattern += "(?:.*/)?";
+            i += 2;
+        } else if (char === "*" && normalized[i + 1] === "*") {
+            pattern += ".*";
+            i += 1;
+        } else if (char === "*") {
+            pattern += "[^/]*";
+        } else if (char === "?") {
+            pattern += "[^/]";
+        } else {
+            pattern += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+        }
+    }
+    return new RegExp(`^${pattern}$`, process.platform === "win32" ? "i" : undefined);
+}
+
 export function delay(ms: number): Promise<void> {
     // Async sleep utility for configurable startup delays.
     if (ms <= 0) {
@@ -102,7 +126,7 @@ export function delay(ms: number): Promise<void> {
 export function spawnDebugpyAdapter(
     config: vscode.DebugConfiguration,
     output: vscode.OutputChannel,
-): childProcess.ChildProcessWithoutNullStreams {
+): AdapterEndpoint {
     // Start debugpy.adapter.
     const command = buildDebugpyCommand(config);
     output.appendLine(`Starting debugpy adapter: ${command.label}`);
@@ -110,13 +134,35 @@ export function spawnDebugpyAdapter(
         env: command.env,
         stdio: "pipe",
     }); // TODO: `python -m debugpy.adapter` might be invalid. Need to handle that -- exit the session with an error message?
-    return adapter;
+    return endpointFromProcess(adapter, command.label);
+}
+
+export function connectDebugpyAdapter(
+    host: string,
+    port: number,
+    output: vscode.OutputChannel,
+): AdapterEndpoint {
+    // Connect to a debugpy adapter that is already listening (debugpy.listen or a subprocess).
+    const label = `${host}:${port}`;
+    output.appendLine(`Connecting to debugpy adapter: ${label}`);
+    return endpointFromSocket(net.connect(port, host), label);
+}
+
+export function connectLldbAdapter(
+    host: string,
+    port: number,
+    output: vscode.OutputChannel,
+): AdapterEndpoint {
+    // Connect to an LLDB DAP adapter served over TCP (e.g. on a remote machine).
+    const label = `${host}:${port}`;
+    output.appendLine(`Connecting to LLDB adapter: ${label}`);
+    return endpointFromSocket(net.connect(port, host), label);
 }
 
 export function spawnLldbAdapter(
     config: vscode.DebugConfiguration,
     output: vscode.OutputChannel,
-): childProcess.ChildProcessWithoutNullStreams | undefined {
+): AdapterEndpoint | undefined {
     // Start CodeLLDB or lldb-dap.
     const command = buildLldbCommand(config, output);
     if (!command) {
@@ -128,7 +174,73 @@ export function spawnLldbAdapter(
         env: command.env,
         stdio: "pipe",
     });
-    return adapter;
+    return endpointFromProcess(adapter, command.label);
+}
+
+// Formatter pack shipped with the extension (outside src, which is not packaged).
+const LLDB_FORMATTERS_PATH = path.join(__dirname, "..", "..", "lldb", "pycpp_formatters.py");
+
+// LLDB init commands that load formatters at attach.
+// Steps:
+// 1) Import the bundled pack unless lldbFormatters is false or LLDB is remote
+//    (lldbConnect): the pack's local path does not exist on the LLDB side.
+// 2) Load each lldbFormatterScripts entry: Python scripts are imported, other
+//    files are run as LLDB command files.
+export function buildLldbFormatterCommands(config: vscode.DebugConfiguration): string[] {
+    const scripts: string[] = loadsBundledFormatters(config) ? [LLDB_FORMATTERS_PATH] : [];
+    if (Array.isArray(config.lldbFormatterScripts)) {
+        scripts.push(
+            ...config.lldbFormatterScripts.filter(
+                (script: unknown): script is string => typeof script === "string" && script !== "",
+            ),
+        );
+    }
+    return scripts.map((script) => {
+        const quoted = `"${script.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+        return path.extname(script).toLowerCase() === ".py"
+            ? `command script import ${quoted}`
+            : `command source ${quoted}`;
+    });
+}
+
+function loadsBundledFormatters(config: vscode.DebugConfiguration): boolean {
+    return config.lldbFormatters !== false && !config.lldbConnect;
+}
+
+function endpointFromProcess(
+    adapter: childProcess.ChildProcessWithoutNullStreams,
+    label: string,
+): AdapterEndpoint {
+    return {
+        label,
+        input: adapter.stdout,
+        output: adapter.stdin,
+        stderr: adapter.stderr,
+        onExit: (listener) =>
+            adapter.on("exit", (code, signal) =>
+                listener(`code=${code ?? "null"}, signal=${signal ?? "null"}`),
+            ),
+        isClosed: () => adapter.killed || adapter.exitCode !== null,
+        close: () => {
+            adapter.kill();
+        },
+    };
+}
+
+function endpointFromSocket(socket: net.Socket, label: string): AdapterEndpoint {
+    return {
+        label,
+        input: socket,
+        output: socket,
+        onExit: (listener) =>
+            socket.on("close", (hadError) =>
+                listener(hadError ? "connection closed with error" : "connection closed"),
+            ),
+        isClosed: () => socket.destroyed,
+        close: () => {
+            socket.destroy();
+        },
+    };
 }
 
 function buildDebugpyCommand(config: vscode.DebugConfiguration): DebugAdapterCommand {
@@ -7,6 +7,7 @@ import {
     extractExtensionsFromAssociations,
     normalizeExtensionList,
 } from "./file_extensions";
+import { PICK_PYTHON_PROCESS_COMMAND } from "./process_picker";
 
 export class PycppDebugConfigurationProvider
     implements vscode.DebugConfigurationProvider {
@@ -29,6 +30,12 @@ export class PycppDebugConfigurationProvider
                 args: [],
                 env: {},
             },
+            {
+                name: "PYCPP: Attach to Process",
+                type: "pycpp-debug",
+                request: "attach",
+                processId: `\${command:${PICK_PYTHON_PROCESS_COMMAND}}`,
+            },
         ];
     }
 
@@ -61,11 +68,42 @@ export class PycppDebugConfigurationProvider
             config.name = "PYCPP: Mixed Debugger";
         }
 
+        if (config.request === "attach") {
+            // Attach needs a PID to inject into, a debugpy.listen endpoint, or a
+            // native child PID (LLDB only, started for followNativeChildren).
+            if (
+                config.processId === undefined &&
+                !config.connect &&
+                config.nativeProcessId === undefined
+            ) {
+                void vscode.window.showErrorMessage(
+                    "PYCPP attach configuration requires \"processId\" or \"connect\".",
+                );
+                return null;
+            }
+            await this.resolveCommonDefaults(folder, config);
+            return config;
+        }
+
         if (!config.cwd && folder?.uri.fsPath) {
             config.cwd = "${workspaceFolder}";
         }
 
-        if (!config.program && folder?.uri.fsPath) {
+        // A launch runs exactly one of: a file, a module (-m), or a code string (-c).
+        const targets = LAUNCH_TARGET_KEYS.filter((key) => config[key] !== undefined);
+        if (targets.length > 1) {
+            void vscode.window.showErrorMessage(
+                `PYCPP launch configuration must set only one of "program", "module" or "code" (found: ${targets.join(", ")}).`,
+            );
+            return null;
+        }
+        const invalidMessage = validateLaunchTarget(config);
+        if (invalidMessage) {
+            void vscode.window.showErrorMessage(invalidMessage);
+            return null;
+        }
+
+        if (targets.length === 0 && folder?.uri.fsPath) {
             config.program = "${file}";
         }
 
@@ -84,6 +122,50 @@ export class PycppDebugConfigurationProvider
             config.console = "integratedTerminal";
         }
 
+        await this.resolveCommonDefaults(folder, config);
+
+        // Return the config to VS Code. The actual DAP work happens in the
+        // debug adapter (see pycpp_adapter.ts).
+        return config;
+    }
+
+    resolveDebugConfigurationWithSubstitutedVariables(
+        _folder: vscode.WorkspaceFolder | undefined,
+        config: vscode.DebugConfiguration,
+    ): vscode.DebugConfiguration | null | undefined {
+        if (config.type !== "pycpp-debug") {
+            return config;
+        }
+
+        if (config.request === "attach") {
+            if (config.processId === undefined) {
+                return config;
+            }
+            // The process picker returns a string; empty means the user cancelled.
+            const pid = Number(config.processId);
+            if (config.processId === "" || !Number.isInteger(pid) || pid <= 0) {
+                if (config.processId !== "") {
+                    void vscode.window.showErrorMessage(
+                        `PYCPP attach: invalid processId "${String(config.processId)}".`,
+                    );
+                }
+                return null;
+            }
+            config.processId = pid;
+            return config;
+        }
+
+        if (typeof config.program === "string") {
+            void this.workspaceState.update(getLastProgramKey(config.name), config.program);
+        }
+        return config;
+    }
+
+    // Fill defaults shared by launch and attach configurations.
+    private async resolveCommonDefaults(
+        folder: vscode.WorkspaceFolder | undefined,
+        config: vscode.DebugConfiguration,
+    ): Promise<void> {
         if (!config.pythonPath) {
             const interpreterPath = await resolveInterpreterPath(folder?.uri);
             if (interpreterPath) {
@@ -98,21 +180,28 @@ export class PycppDebugConfigurationProvider
         if (!config.cppFileExtensions) {
             config.cppFileExtensions = fileExtensions.cpp;
         }
-
-        // Return the config to VS Code. The actual DAP work happens in the
-        // debug adapter (see pycpp_adapter.ts).
-        return config;
     }
+}
 
-    resolveDebugConfigurationWithSubstitutedVariables(
-        _folder: vscode.WorkspaceFolder | undefined,
-        config: vscode.DebugConfiguration,
-    ): vscode.DebugConfiguration | null | undefined {
-        if (config.type === "pycpp-debug" && typeof config.program === "string") {
-            void this.workspaceState.update(getLastProgramKey(config.name), config.program);
-        }
-        return config;
+const LAUNCH_TARGET_KEYS = ["program", "module", "code"] as const;
+
+// Check launch target fields and interpreter arguments have the shapes debugpy expects.
+// Returns an error message, or undefined when the configuration is valid.
+function validateLaunchTarget(config: vscode.DebugConfiguration): string | undefined {
+    if (config.module !== undefined && (typeof config.module !== "string" || !config.module.trim())) {
+        return "PYCPP launch configuration: \"module\" must be a non-empty module name.";
+    }
+    if (config.code !== undefined && typeof config.code !== "string") {
+        return "PYCPP launch configuration: \"code\" must be a string.";
+    }
+    if (
+        config.pythonArgs !== undefined &&
+        (!Array.isArray(config.pythonArgs) ||
+            !config.pythonArgs.every((arg: unknown) => typeof arg === "string"))
+    ) {
+        return "PYCPP launch configuration: \"pythonArgs\" must be an array of strings.";
     }
+    return undefined;
 }
 
 function getLastProgramKey(name: string | undefined): string {
@@ -141,7 +230,7 @@ function resolveFileExtensions(): { python: string[]; cpp: string[] } {
     };
 }
 
-async function resolveInterpreterPath(
+export async function resolveInterpreterPath(
     resource: vscode.Uri | undefined,
 ): Promise<string | undefined> {
     try {
@@ -0,0 +1,472 @@
+import * as childProcess from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as vscode from "vscode";
+import { resolveInterpreterPath } from "./pycpp_provider";
+
+const CONTROLLER_ID = "pycpp-pytest";
+const TEST_FILE_GLOB = "**/{test_*.py,*_test.py,conftest.py}";
+// Quiet period after a test file change before the folder is collected again.
+const RECOLLECT_DELAY_MS = 500;
+// pytest's own options whose value is the next argument ("-k expr", "--tb short").
+const PYTEST_OPTIONS_WITH_VALUES = new Set([
+    "-c", "-k", "-m", "-o", "-p", "-r", "-W", "-n",
+    "--basetemp", "--capture", "--confcutdir", "--cov", "--cov-config", "--cov-report",
+    "--deselect", "--dist", "--durations", "--ignore", "--ignore-glob", "--import-mode",
+    "--junit-prefix", "--junit-xml", "--junitxml", "--log-cli-level", "--log-file",
+    "--log-file-level", "--log-level", "--maxfail", "--override-ini", "--rootdir",
+    "--tb", "--timeout",
+]);
+
+type JunitResult = {
+    outcome: "passed" | "failed" | "errored" | "skipped";
+    message?: string;
+    durationMs?: number;
+};
+
+// Collects pytest tests and offers a "Debug (Python + C++)" run profile.
+// Tests are collected with `pytest --collect-only` in each workspace folder where
+// the Python extension has pytest enabled (python.testing.pytestEnabled), using
+// its python.testing.pytestArgs. Selected node ids run through a pycpp-debug
+// launch, so C++ breakpoints are routed to LLDB as in any other session.
+export class PycppPytestController implements vscode.Disposable {
+    private readonly controller = vscode.tests.createTestController(
+        CONTROLLER_ID,
+        "Pytest (Python + C++)",
+    );
+    private readonly disposables: vscode.Disposable[] = [];
+    // Pending re-collection after file changes, by folder URI.
+    private readonly recollectTimers = new Map<string, NodeJS.Timeout>();
+    // Running collection per folder URI; a newer one cancels it.
+    private readonly collections = new Map<string, AbortController>();
+
+    constructor(private readonly output: vscode.OutputChannel) {
+        this.controller.resolveHandler = async (item) => {
+            if (!item) {
+                await this.collectAll();
+            }
+        };
+        this.controller.refreshHandler = () => this.collectAll();
+        this.controller.createRunProfile(
+            "Debug (Python + C++)",
+            vscode.TestRunProfileKind.Debug,
+            (request, token) => this.runDebug(request, token),
+            true,
+        );
+
+        // Re-collect a folder once its test files stop changing.
+        const watcher = vscode.workspace.createFileSystemWatcher(TEST_FILE_GLOB);
+        const recollect = (uri: vscode.Uri): void => {
+            const folder = vscode.workspace.getWorkspaceFolder(uri);
+            if (!folder) {
+                return;
+            }
+            const key = folder.uri.toString();
+            clearTimeout(this.recollectTimers.get(key));
+            this.recollectTimers.set(
+                key,
+                setTimeout(() => {
+                    this.recollectTimers.delete(key);
+                    void this.collectFolder(folder);
+                }, RECOLLECT_DELAY_MS),
+            );
+        };
+        this.disposables.push(
+            watcher,
+            watcher.onDidCreate(recollect),
+            watcher.onDidChange(recollect),
+            watcher.onDidDelete(recollect),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.collectAll()),
+        );
+    }
+
+    dispose(): void {
+        for (const timer of this.recollectTimers.values()) {
+            clearTimeout(timer);
+        }
+        for (const collection of this.collections.values()) {
+            collection.abort();
+        }
+        for (const disposable of this.disposables) {
+            disposable.dispose();
+        }
+        this.controller.dispose();
+    }
+
+    private async collectAll(): Promise<void> {
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        const folderIds = new Set(folders.map((folder) => folder.uri.toString()));
+        this.controller.items.forEach((item) => {
+            if (!folderIds.has(item.id)) {
+                this.controller.items.delete(item.id);
+            }
+        });
+        await Promise.all(folders.map((folder) => this.collectFolder(folder)));
+    }
+
+    // Collect tests for one workspace folder.
+    // Steps:
+    // 1) Cancel a collection still running for the folder.
+    // 2) Skip folders where pytest is not enabled in the Python extension.
+    // 3) Run `pytest --collect-only -q` and read node ids from stdout.
+    // 4) Rebuild the folder's test tree from the node ids.
+    private async collectFolder(folder: vscode.WorkspaceFolder): Promise<void> {
+        const key = folder.uri.toString();
+        this.collections.get(key)?.abort();
+        const collection = new AbortController();
+        this.collections.set(key, collection);
+        try {
+            await this.collectFolderTests(folder, collection.signal);
+        } finally {
+            if (this.collections.get(key) === collection) {
+                this.collections.delete(key);
+            }
+        }
+    }
+
+    private async collectFolderTests(folder: vscode.WorkspaceFolder, signal: AbortSignal): Promise<void> {
+        const testingConfig = vscode.workspace.getConfiguration("python.testing", folder.uri);
+        if (!testingConfig.get<boolean>("pytestEnabled")) {
+            this.controller.items.delete(folder.uri.toString());
+            return;
+        }
+
+        const pythonPath = (await resolveInterpreterPath(folder.uri)) ?? "python";
+        if (signal.aborted) {
+            return;
+        }
+        const args = [
+            "-m",
+            "pytest",
+            "--collect-only",
+            "-q",
+            "--rootdir",
+            folder.uri.fsPath,
+            ...getPytestArgs(folder),
+        ];
+        let stdout: string;
+        try {
+            stdout = await execCollect(pythonPath, args, folder.uri.fsPath, signal);
+        } catch (error) {
+            if (signal.aborted) {
+                // Replaced by a newer collection.
+                return;
+            }
+            this.output.appendLine(
+                `[pytest] collection failed in ${folder.uri.fsPath}: ${error instanceof Error ? error.message : String(error)}`,
+            );
+            return;
+        }
+
+        const nodeIds = stdout
+            .split(/\r?\n/)
+            .map((line) => line.trim())
+            .filter((line) => line.includes("::") && !line.includes(" "));
+
+        const root = this.controller.createTestItem(folder.uri.toString(), folder.name, folder.uri);
+        for (const nodeId of nodeIds) {
+            this.addNodeId(root, folder, nodeId);
+        }
+        this.controller.items.add(root);
+    }
+
+    // Insert a node id ("tests/test_a.py::TestX::test_y[1]") into the tree.
+    private addNodeId(
+        root: vscode.TestItem,
+        folder: vscode.WorkspaceFolder,
+        nodeId: string,
+    ): void {
+        const [filePart, ...names] = nodeId.split("::");
+        const fileUri = vscode.Uri.joinPath(folder.uri, filePart);
+        let parent = root;
+        let id = filePart;
+        for (const [index, label] of [filePart, ...names].entries()) {
+            if (index > 0) {
+                id = `${id}::${label}`;
+            }
+            const itemId = `${folder.uri.toString()}|${id}`;
+            let item = parent.children.get(itemId);
+            if (!item) {
+                item = this.controller.createTestItem(itemId, label, fileUri);
+                parent.children.add(item);
+            }
+            parent = item;
+        }
+    }
+
+    // Debug the selected tests in one pycpp-debug session per workspace folder.
+    // Steps:
+    // 1) Resolve the selected leaf tests and group them by folder.
+    // 2) Launch `python -m pytest <node ids>` through the pycpp-debug adapter.
+    // 3) After the session ends, report results from pytest's JUnit XML.
+    private async runDebug(
+        request: vscode.TestRunRequest,
+        token: vscode.CancellationToken,
+    ): Promise<void> {
+        const excluded = new Set((request.exclude ?? []).map((item) => item.id));
+        const roots: vscode.TestItem[] = [];
+        if (request.include) {
+            roots.push(...request.include);
+        } else {
+            this.controller.items.forEach((item) => roots.push(item));
+        }
+
+        const byFolder = new Map<vscode.WorkspaceFolder, Map<string, vscode.TestItem>>();
+        for (const rootItem of roots) {
+            for (const leaf of collectLeaves(rootItem, excluded)) {
+                const folder = leaf.uri ? vscode.workspace.getWorkspaceFolder(leaf.uri) : undefined;
+                if (!folder) {
+                    continue;
+                }
+                const tests = byFolder.get(folder) ?? new Map<string, vscode.TestItem>();
+                tests.set(getNodeId(leaf), leaf);
+                byFolder.set(folder, tests);
+            }
+        }
+
+        for (const [folder, tests] of byFolder) {
+            if (token.isCancellationRequested) {
+                break;
+            }
+            await this.debugFolderTests(request, folder, tests, token);
+        }
+    }
+
+    private async debugFolderTests(
+        request: vscode.TestRunRequest,
+        folder: vscode.WorkspaceFolder,
+        tests: Map<string, vscode.TestItem>,
+        token: vscode.CancellationToken,
+    ): Promise<void> {
+        const run = this.controller.createTestRun(request, `Debug (Python + C++): ${folder.name}`);
+        for (const test of tests.values()) {
+            run.started(test);
+        }
+
+        const junitPath = path.join(
+            os.tmpdir(),
+            `pycpp-pytest-${process.pid}-${Date.now()}.xml`,
+        );
+        const sessionMarker = `pycpp-test-${Date.now()}`;
+        const config: vscode.DebugConfiguration = {
+            name: "PYCPP: Debug Tests",
+            type: "pycpp-debug",
+            request: "launch",
+            module: "pytest",
+            cwd: folder.uri.fsPath,
+            args: [
+                "--rootdir",
+                folder.uri.fsPath,
+                `--junitxml=${junitPath}`,
+                // Positional paths from the settings would run more than the selected tests.
+                ...removePositionalArgs(getPytestArgs(folder), folder.uri.fsPath),
+                ...tests.keys(),
+            ],
+            pycppTestRun: sessionMarker,
+        };
+
+        const terminated = waitForSessionEnd(sessionMarker, token);
+        const started = await vscode.debug.startDebugging(folder, config, { testRun: run });
+        if (!started) {
+            terminated.dispose();
+            for (const test of tests.values()) {
+                run.errored(test, new vscode.TestMessage("Failed to start the pycpp-debug session."));
+            }
+            run.end();
+            return;
+        }
+        await terminated.promise;
+
+        const results = readJunitResults(junitPath);
+        for (const [nodeId, test] of tests) {
+            const result = results.get(junitKeyFromNodeId(nodeId));
+            if (!result) {
+                // Missing from the report: pytest crashed or exited before the test ran.
+                run.errored(test, new vscode.TestMessage("No result was reported for this test."));
+                continue;
+            }
+            switch (result.outcome) {
+                case "passed":
+                    run.passed(test, result.durationMs);
+                    break;
+                case "skipped":
+                    run.skipped(test);
+                    break;
+                case "failed":
+                    run.failed(test, new vscode.TestMessage(result.message ?? "Test failed."), result.durationMs);
+                    break;
+                case "errored":
+                    run.errored(test, new vscode.TestMessage(result.message ?? "Test errored."), result.durationMs);
+                    break;
+            }
+        }
+        fs.rm(junitPath, { force: true }, () => {});
+        run.end();
+    }
+}
+
+function getPytestArgs(folder: vscode.WorkspaceFolder): string[] {
+    const args = vscode.workspace
+        .getConfiguration("python.testing", folder.uri)
+        .get<unknown[]>("pytestArgs", []);
+    return args.filter((arg): arg is string => typeof arg === "string");
+}
+
+// Drop arguments that select tests (node ids, existing files and directories),
+// keeping options and their values. Other arguments are passed through: after an
+// option pytest does not define itself ("--reruns 3" from a plugin), they are its value.
+export function removePositionalArgs(args: string[], cwd: string): string[] {
+    const kept: string[] = [];
+    for (let index = 0; index < args.length; index += 1) {
+        const arg = args[index];
+        if (arg.startsWith("-")) {
+            kept.push(arg);
+            if (PYTEST_OPTIONS_WITH_VALUES.has(arg) && index + 1 < args.length) {
+                kept.push(args[index + 1]);
+                index += 1;
+            }
+            continue;
+        }
+        if (!selectsTests(arg, cwd)) {
+            kept.push(arg);
+        }
+    }
+    return kept;
+}
+
+function selectsTests(arg: string, cwd: string): boolean {
+    return arg.includes("::") || fs.existsSync(path.resolve(cwd, arg));
+}
+
+function getNodeId(item: vscode.TestItem): string {
+    return item.id.slice(item.id.indexOf("|") + 1);
+}
+
+function collectLeaves(item: vscode.TestItem, excluded: Set<string>): vscode.TestItem[] {
+    if (excluded.has(item.id)) {
+        return [];
+    }
+    if (item.children.size === 0) {
+        return item.id.includes("|") ? [item] : [];
+    }
+    const leaves: vscode.TestItem[] = [];
+    item.children.forEach((child) => leaves.push(...collectLeaves(child, excluded)));
+    return leaves;
+}
+
+// Resolve when the debug session tagged with the marker terminates (or the run is cancelled).
+function waitForSessionEnd(
+    marker: string,
+    token: vscode.CancellationToken,
+): { promise: Promise<void>; dispose: () => void } {
+    const disposables: vscode.Disposable[] = [];
+    const dispose = (): void => {
+        for (const disposable of disposables) {
+            disposable.dispose();
+        }
+    };
+    let session: vscode.DebugSession | undefined;
+    const promise = new Promise<void>((resolve) => {
+        disposables.push(
+            vscode.debug.onDidStartDebugSession((started) => {
+                if (started.configuration.pycppTestRun === marker) {
+                    session = started;
+                }
+            }),
+            vscode.debug.onDidTerminateDebugSession((ended) => {
+                if (ended.configuration.pycppTestRun === marker) {
+                    dispose();
+                    resolve();
+                }
+            }),
+            token.onCancellationRequested(() => {
+                if (session) {
+                    void vscode.debug.stopDebugging(session);
+                    return;
+                }
+                dispose();
+                resolve();
+            }),
+        );
+    });
+    return { promise, dispose };
+}
+
+function execCollect(command: string, args: string[], cwd: string, signal: AbortSignal): Promise<string> {
+    return new Promise((resolve, reject) => {
+        childProcess.execFile(
+            command,
+            args,
+            { cwd, maxBuffer: 64 * 1024 * 1024, signal },
+            (error, stdout) => {
+                // pytest exits with 5 when no tests were collected; that is not an error.
+                if (error && error.code !== 5) {
+                    reject(error);
+                    return;
+                }
+                resolve(stdout);
+            },
+        );
+    });
+}
+
+// Map a node id to the "<classname>.<name>" key pytest writes to JUnit XML.
+// "tests/test_a.py::TestX::test_y[1]" -> "tests.test_a.TestX.test_y[1]"
+export function junitKeyFromNodeId(nodeId: string): string {
+    const [filePart, ...names] = nodeId.split("::");
+    const modulePath = filePart.replace(/\.py$/, "").split(/[\\/]/).join(".");
+    return [modulePath, ...names].join(".");
+}
+
+// Parse pytest's JUnit XML report into results keyed by "<classname>.<name>".
+export function readJunitResults(junitPath: string): Map<string, JunitResult> {
+    const results = new Map<string, JunitResult>();
+    let xml: string;
+    try {
+        xml = fs.readFileSync(junitPath, "utf8");
+    } catch {
+        return results;
+    }
+
+    const testcasePattern = /<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g;
+    for (const match of xml.matchAll(testcasePattern)) {
+        const attributes = parseXmlAttributes(match[1]);
+        const body = match[2] ?? "";
+        const key = `${attributes.classname}.${attributes.name}`;
+        const time = Number(attributes.time);
+        const durationMs = Number.isFinite(time) ? time * 1000 : undefined;
+
+        const child = /<(failure|error|skipped)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/.exec(body);
+        if (!child) {
+            results.set(key, { outcome: "passed", durationMs });
+            continue;
+        }
+        const childAttributes = parseXmlAttributes(child[2]);
+        const message = [childAttributes.message, unescapeXml(child[3] ?? "")]
+            .filter((part) => part)
+            .join("\n");
+        const outcome =
+            child[1] === "failure" ? "failed" : child[1] === "error" ? "errored" : "skipped";
+        results.set(key, { outcome, message, durationMs });
+    }
+    return results;
+}
+
+function parseXmlAttributes(text: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const match of text.matchAll(/([\w:-]+)="([^"]*)"/g)) {
+        attributes[match[1]] = unescapeXml(match[2]);
+    }
+    return attributes;
+}
+
+function unescapeXml(text: string): string {
+    return text
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">")
+        .replace(/&quot;/g, "\"")
+        .replace(/&apos;/g, "'")
+        .replace(/&#(\d+);/g, (_match, code: string) => String.fromCharCode(Number(code)))
+        .replace(/&amp;/g, "&");
+}
@@ -0,0 +1,21 @@
+import * as assert from 'assert';
+import { demangleTypeName } from '../pycpp_adapter/proxy_exceptions';
+
+suite('demangleTypeName', () => {
+	test('demangles std and nested type names', () => {
+		assert.strictEqual(demangleTypeName('St13runtime_error'), 'std::runtime_error');
+		assert.strictEqual(demangleTypeName('N2ns5ErrorE'), 'ns::Error');
+		assert.strictEqual(demangleTypeName('N3app6detail9BadConfigE'), 'app::detail::BadConfig');
+		assert.strictEqual(demangleTypeName('NSt8ios_base7failureE'), 'std::ios_base::failure');
+	});
+
+	test('demangles unscoped and pointer type names', () => {
+		assert.strictEqual(demangleTypeName('5Error'), 'Error');
+		assert.strictEqual(demangleTypeName('*N2ns5ErrorE'), 'ns::Error');
+	});
+
+	test('keeps template and builtin type names mangled', () => {
+		assert.strictEqual(demangleTypeName('N2ns5ErrorIiEE'), 'N2ns5ErrorIiEE');
+		assert.strictEqual(demangleTypeName('i'), 'i');
+	});
+});
@@ -0,0 +1,23 @@
+import * as assert from 'assert';
+import { classifyFunctionBreakpoint } from '../pycpp_adapter/proxy_function_breakpoints';
+
+suite('classifyFunctionBreakpoint', () => {
+	test('plain names go to debugpy', () => {
+		assert.strictEqual(classifyFunctionBreakpoint('main'), 'debugpy');
+		assert.strictEqual(classifyFunctionBreakpoint('  process_batch '), 'debugpy');
+		assert.strictEqual(classifyFunctionBreakpoint('operators_table'), 'debugpy');
+	});
+
+	test('C++ syntax goes to LLDB', () => {
+		assert.strictEqual(classifyFunctionBreakpoint('ns::Solver::solve'), 'lldb');
+		assert.strictEqual(classifyFunctionBreakpoint('solve(int, double)'), 'lldb');
+		assert.strictEqual(classifyFunctionBreakpoint('Matrix<float>::at'), 'lldb');
+		assert.strictEqual(classifyFunctionBreakpoint('~Buffer'), 'lldb');
+		assert.strictEqual(classifyFunctionBreakpoint('operator+'), 'lldb');
+	});
+
+	test('regex: and module: names become LLDB commands', () => {
+		assert.strictEqual(classifyFunctionBreakpoint('regex:^solve_'), 'lldb-command');
+		assert.strictEqual(classifyFunctionBreakpoint(' module:libcore.so'), 'lldb-command');
+	});
+});
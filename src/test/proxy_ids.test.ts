@@ -0,0 +1,104 @@
+import * as assert from 'assert';
+import { DapRequest } from '../pycpp_adapter/data_types';
+import {
+	allocateProxyId,
+	createIdState,
+	invalidateStopScopedIds,
+	linkThreadIds,
+	translateToAdapter,
+	translateToClient,
+} from '../pycpp_adapter/proxy_ids';
+
+function request(command: string, args: Record<string, unknown>): DapRequest {
+	return { seq: 1, type: 'request', command, arguments: args };
+}
+
+suite('proxy ids', () => {
+	test('ids of the two adapters get distinct client ids', () => {
+		const idState = createIdState();
+		const python = translateToClient(idState, 'debugpy', { threadId: 1, frameId: 1 });
+		const native = translateToClient(idState, 'lldb', { threadId: 1, frameId: 1 });
+		assert.notStrictEqual(python.threadId, native.threadId);
+		assert.notStrictEqual(python.frameId, native.frameId);
+		assert.deepStrictEqual(translateToClient(idState, 'debugpy', { threadId: 1 }), { threadId: python.threadId });
+	});
+
+	test('translates ids in containers, arrays and nested bodies', () => {
+		const idState = createIdState();
+		const body = translateToClient(idState, 'lldb', {
+			threads: [{ id: 7, name: 'main' }],
+			stackFrames: [{ id: 1000, name: 'f', source: { sourceReference: 3 } }],
+			hitBreakpointIds: [5, 6],
+			variables: [{ name: 'x', variablesReference: 0 }, { name: 'y', variablesReference: 42 }],
+		});
+		assert.strictEqual(body.threads[0].id, 1);
+		assert.strictEqual(body.stackFrames[0].id, 1);
+		assert.strictEqual(body.stackFrames[0].source.sourceReference, 1);
+		assert.deepStrictEqual(body.hitBreakpointIds, [1, 2]);
+		// Zero means "no reference" and is kept.
+		assert.strictEqual(body.variables[0].variablesReference, 0);
+		assert.strictEqual(body.variables[1].variablesReference, 1);
+	});
+
+	test('an "id" outside a known container is left alone', () => {
+		const idState = createIdState();
+		assert.deepStrictEqual(translateToClient(idState, 'lldb', { module: { id: 9 } }), { module: { id: 9 } });
+	});
+
+	test('round-trips client ids back to the owning adapter', () => {
+		const idState = createIdState();
+		translateToClient(idState, 'debugpy', { frameId: 5 });
+		const native = translateToClient(idState, 'lldb', { frameId: 5, variablesReference: 8 });
+		const translated = translateToAdapter(
+			idState,
+			'debugpy',
+			request('variables', { variablesReference: native.variablesReference }),
+		);
+		assert.strictEqual(translated.owner, 'lldb');
+		assert.deepStrictEqual(translated.request.arguments, { variablesReference: 8 });
+		const scopes = translateToAdapter(idState, 'debugpy', request('scopes', { frameId: native.frameId }));
+		assert.strictEqual(scopes.owner, 'lldb');
+		assert.deepStrictEqual(scopes.request.arguments, { frameId: 5 });
+	});
+
+	test('requests without known ids have no owner', () => {
+		const idState = createIdState();
+		const translated = translateToAdapter(idState, 'lldb', request('evaluate', { expression: '1', frameId: 99 }));
+		assert.strictEqual(translated.owner, undefined);
+		assert.deepStrictEqual(translated.request.arguments, { expression: '1', frameId: 99 });
+	});
+
+	test('a linked thread belongs to the stopped adapter', () => {
+		const idState = createIdState();
+		const clientId = linkThreadIds(idState, 1, 4242);
+		assert.deepStrictEqual(translateToClient(idState, 'lldb', { threadId: 4242 }), { threadId: clientId });
+		const python = translateToAdapter(idState, 'debugpy', request('stackTrace', { threadId: clientId }));
+		assert.deepStrictEqual([python.owner, python.request.arguments], ['debugpy', { threadId: 1 }]);
+		const native = translateToAdapter(idState, 'lldb', request('stackTrace', { threadId: clientId }));
+		assert.deepStrictEqual([native.owner, native.request.arguments], ['lldb', { threadId: 4242 }]);
+	});
+
+	test('frame and variable ids are dropped when their adapter resumes', () => {
+		const idState = createIdState();
+		const native = translateToClient(idState, 'lldb', { threadId: 1, frameId: 1 });
+		const python = translateToClient(idState, 'debugpy', { frameId: 1 });
+		invalidateStopScopedIds(idState, 'lldb');
+		assert.strictEqual(translateToAdapter(idState, 'lldb', request('scopes', { frameId: native.frameId })).owner, undefined);
+		assert.strictEqual(translateToAdapter(idState, 'lldb', request('threads', { threadId: native.threadId })).owner, 'lldb');
+		assert.strictEqual(translateToAdapter(idState, 'lldb', request('scopes', { frameId: python.frameId })).owner, 'debugpy');
+		// New ids never reuse a dropped one.
+		assert.notStrictEqual(translateToClient(idState, 'lldb', { frameId: 1 }).frameId, native.frameId);
+	});
+
+	test('proxy ids share the counter and have no owner', () => {
+		const idState = createIdState();
+		const adapterId = translateToClient(idState, 'lldb', { variablesReference: 3 }).variablesReference;
+		const proxyId = allocateProxyId(idState, 'variables');
+		assert.notStrictEqual(proxyId, adapterId);
+		assert.notStrictEqual(translateToClient(idState, 'debugpy', { variablesReference: 3 }).variablesReference, proxyId);
+		assert.strictEqual(
+			translateToAdapter(idState, 'lldb', request('variables', { variablesReference: proxyId })).owner,
+			undefined,
+		);
+	});
+});
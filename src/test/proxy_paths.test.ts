@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PathMapper } from '../pycpp_adapter/proxy_paths';
+
+suite('PathMapper', () => {
+	let root: string;
+
+	suiteSetup(() => {
+		root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'pycpp-paths-')));
+		fs.mkdirSync(path.join(root, 'src', 'core'), { recursive: true });
+		fs.writeFileSync(path.join(root, 'src', 'core', 'a.cpp'), '');
+	});
+
+	suiteTeardown(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	test('maps editor paths to build paths and back', () => {
+		const mapper = new PathMapper([{ localRoot: root, remoteRoot: '/build/project' }]);
+		const local = path.join(root, 'src', 'core', 'a.cpp');
+		assert.strictEqual(mapper.toAdapter(local), '/build/project/src/core/a.cpp');
+		assert.strictEqual(mapper.toClient('/build/project/src/core/a.cpp'), local);
+		assert.strictEqual(mapper.toClient('/build/project/src/core/b.cpp'), path.join(root, 'src', 'core', 'b.cpp'));
+	});
+
+	test('leaves paths outside every root unchanged', () => {
+		const mapper = new PathMapper([{ localRoot: root, remoteRoot: '/build/project' }]);
+		assert.strictEqual(mapper.toAdapter('/usr/include/stdio.h'), '/usr/include/stdio.h');
+		assert.strictEqual(mapper.toClient('/build/projectX/a.cpp'), '/build/projectX/a.cpp');
+	});
+
+	test('the longest matching root wins', () => {
+		const mapper = new PathMapper([
+			{ localRoot: root, remoteRoot: '/build/project' },
+			{ localRoot: path.join(root, 'src', 'core'), remoteRoot: '/opt/core' },
+		]);
+		const local = path.join(root, 'src', 'core', 'a.cpp');
+		assert.strictEqual(mapper.toAdapter(local), '/opt/core/a.cpp');
+		assert.strictEqual(mapper.toClient('/opt/core/a.cpp'), local);
+	});
+
+	test('uses the separators of a Windows build root', () => {
+		const mapper = new PathMapper([{ localRoot: root, remoteRoot: 'C:\\build\\project' }]);
+		const local = path.join(root, 'src', 'core', 'a.cpp');
+		assert.strictEqual(mapper.toAdapter(local), 'C:\\build\\project\\src\\core\\a.cpp');
+		assert.strictEqual(mapper.toClient('c:\\BUILD\\project\\src\\core\\a.cpp'), local);
+	});
+
+	test('sourceMap takes precedence over pathMappings', () => {
+		const mapper = new PathMapper(
+			[{ localRoot: root, remoteRoot: '/build/project' }],
+			{ '/ci/checkout': root },
+		);
+		const local = path.join(root, 'src', 'core', 'a.cpp');
+		assert.strictEqual(mapper.toAdapter(local), '/ci/checkout/src/core/a.cpp');
+		assert.strictEqual(mapper.toClient('/ci/checkout/src/core/a.cpp'), local);
+		assert.strictEqual(mapper.toClient('/build/project/src/core/a.cpp'), local);
+	});
+
+	test('returns the editor path a build path was mapped from', function () {
+		const link = path.join(os.tmpdir(), `pycpp-paths-link-${process.pid}`);
+		try {
+			fs.symlinkSync(root, link, 'dir');
+		} catch {
+			this.skip();
+		}
+		try {
+			// The editor opened the file through a symlink; the mapping names the link too.
+			const mapper = new PathMapper([{ localRoot: link, remoteRoot: '/build/project' }]);
+			const opened = path.join(link, 'src', 'core', 'a.cpp');
+			assert.strictEqual(mapper.toAdapter(opened), '/build/project/src/core/a.cpp');
+			assert.strictEqual(mapper.toClient('/build/project/src/core/a.cpp'), opened);
+		} finally {
+			fs.rmSync(link, { force: true });
+		}
+	});
+
+	test('mapSources rewrites source paths in a DAP body', () => {
+		const mapper = new PathMapper([{ localRoot: root, remoteRoot: '/build/project' }]);
+		const body = {
+			stackFrames: [
+				{ id: 1, name: 'f', source: { path: '/build/project/src/core/a.cpp' } },
+				{ id: 2, name: 'g', source: { path: '/usr/include/stdio.h' } },
+			],
+			instructions: [{ address: '0x1', location: { path: '/build/project/src/core/a.cpp' } }],
+		};
+		mapper.mapSources(body, 'toClient');
+		const local = path.join(root, 'src', 'core', 'a.cpp');
+		assert.strictEqual(body.stackFrames[0].source.path, local);
+		assert.strictEqual(body.stackFrames[1].source.path, '/usr/include/stdio.h');
+		assert.strictEqual(body.instructions[0].location.path, local);
+		mapper.mapSources(body, 'toAdapter');
+		assert.strictEqual(body.stackFrames[0].source.path, '/build/project/src/core/a.cpp');
+	});
+});
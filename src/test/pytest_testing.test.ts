@@ -0,0 +1,103 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { junitKeyFromNodeId, readJunitResults, removePositionalArgs } from '../pytest_testing';
+
+suite('pytest JUnit results', () => {
+	let directory: string;
+
+	suiteSetup(() => {
+		directory = fs.mkdtempSync(path.join(os.tmpdir(), 'pycpp-junit-'));
+	});
+
+	suiteTeardown(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	function writeReport(testcases: string): string {
+		const junitPath = path.join(directory, 'report.xml');
+		fs.writeFileSync(
+			junitPath,
+			'<?xml version="1.0" encoding="utf-8"?><testsuites><testsuite name="pytest">' +
+				`${testcases}</testsuite></testsuites>`,
+		);
+		return junitPath;
+	}
+
+	test('junitKeyFromNodeId matches the classname and name pytest writes', () => {
+		assert.strictEqual(junitKeyFromNodeId('tests/test_a.py::test_b'), 'tests.test_a.test_b');
+		assert.strictEqual(junitKeyFromNodeId('tests/test_a.py::TestX::test_y[1]'), 'tests.test_a.TestX.test_y[1]');
+		assert.strictEqual(junitKeyFromNodeId('tests\\sub\\test_a.py::test_b'), 'tests.sub.test_a.test_b');
+	});
+
+	test('readJunitResults reads each outcome with its message and duration', () => {
+		const results = readJunitResults(writeReport(
+			'<testcase classname="tests.test_a" name="test_pass" time="0.250" />' +
+			'<testcase classname="tests.test_a" name="test_fail" time="0.1">' +
+				'<failure message="assert 1 == 2">def test_fail():\n&gt;       assert 1 == 2</failure></testcase>' +
+			'<testcase classname="tests.test_a.TestX" name="test_error[x&amp;y]" time="0">' +
+				'<error message="fixture &apos;db&apos; not found" /></testcase>' +
+			'<testcase classname="tests.test_a" name="test_skip" time="0.000">' +
+				'<skipped type="pytest.skip" message="not on linux">skipped</skipped></testcase>',
+		));
+		assert.deepStrictEqual(results.get('tests.test_a.test_pass'), { outcome: 'passed', durationMs: 250 });
+		assert.deepStrictEqual(results.get('tests.test_a.test_fail'), {
+			outcome: 'failed',
+			message: 'assert 1 == 2\ndef test_fail():\n>       assert 1 == 2',
+			durationMs: 100,
+		});
+		assert.deepStrictEqual(results.get('tests.test_a.TestX.test_error[x&y]'), {
+			outcome: 'errored',
+			message: 'fixture \'db\' not found',
+			durationMs: 0,
+		});
+		assert.strictEqual(results.get('tests.test_a.test_skip')?.outcome, 'skipped');
+		assert.strictEqual(results.size, 4);
+	});
+
+	test('readJunitResults keys match junitKeyFromNodeId', () => {
+		const results = readJunitResults(writeReport(
+			'<testcase classname="tests.test_a.TestX" name="test_y[1]" time="0.01" />',
+		));
+		assert.strictEqual(results.get(junitKeyFromNodeId('tests/test_a.py::TestX::test_y[1]'))?.outcome, 'passed');
+	});
+
+	test('readJunitResults returns no results without a report', () => {
+		assert.strictEqual(readJunitResults(path.join(directory, 'missing.xml')).size, 0);
+	});
+});
+
+suite('removePositionalArgs', () => {
+	let directory: string;
+
+	suiteSetup(() => {
+		directory = fs.mkdtempSync(path.join(os.tmpdir(), 'pycpp-args-'));
+		fs.mkdirSync(path.join(directory, 'tests'));
+	});
+
+	suiteTeardown(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	test('drops node ids and existing paths', () => {
+		assert.deepStrictEqual(
+			removePositionalArgs(['tests', 'tests/test_a.py::test_b', '-x'], directory),
+			['-x'],
+		);
+	});
+
+	test('keeps the values of pytest options', () => {
+		assert.deepStrictEqual(
+			removePositionalArgs(['-k', 'tests', '--tb', 'short', '--maxfail=2'], directory),
+			['-k', 'tests', '--tb', 'short', '--maxfail=2'],
+		);
+	});
+
+	test('passes other arguments through as plugin option values', () => {
+		assert.deepStrictEqual(
+			removePositionalArgs(['--reruns', '3', '--only-rerun', 'AssertionError'], directory),
+			['--reruns', '3', '--only-rerun', 'AssertionError'],
+		);
+	});
+});
@@ -0,0 +1,106 @@
+import * as assert from 'assert';
+import * as net from 'net';
+import * as vscode from 'vscode';
+import { AdapterEndpoint, DapMessage } from '../pycpp_adapter/data_types';
+import { DapConnection, connectDebugpyAdapter, connectLldbAdapter, globToRegExp } from '../pycpp_adapter/utils';
+
+// Accept one connection on a free local port and echo everything back.
+function listen(): Promise<{ server: net.Server; port: number; sockets: net.Socket[] }> {
+	const sockets: net.Socket[] = [];
+	const server = net.createServer((socket) => {
+		sockets.push(socket);
+		socket.pipe(socket);
+	});
+	return new Promise((resolve) => {
+		server.listen(0, '127.0.0.1', () => {
+			resolve({ server, port: (server.address() as net.AddressInfo).port, sockets });
+		});
+	});
+}
+
+function roundTrip(endpoint: AdapterEndpoint, message: DapMessage): Promise<DapMessage> {
+	return new Promise((resolve, reject) => {
+		const connection = new DapConnection(endpoint.input, endpoint.output, resolve, reject);
+		connection.send(message);
+	});
+}
+
+function closed(endpoint: AdapterEndpoint): Promise<string> {
+	return new Promise((resolve) => endpoint.onExit(resolve));
+}
+
+suite('Adapter connections', () => {
+	const output = vscode.window.createOutputChannel('pycpp adapter tests');
+
+	suiteTeardown(() => output.dispose());
+
+	for (const [name, connect] of [
+		['connectDebugpyAdapter', connectDebugpyAdapter],
+		['connectLldbAdapter', connectLldbAdapter],
+	] as const) {
+		test(`${name} exchanges DAP messages with a listening adapter`, async () => {
+			const { server, port } = await listen();
+			try {
+				const endpoint = connect('127.0.0.1', port, output);
+				assert.strictEqual(endpoint.label, `127.0.0.1:${port}`);
+				const request: DapMessage = { seq: 1, type: 'request', command: 'initialize', arguments: {} };
+				assert.deepStrictEqual(await roundTrip(endpoint, request), request);
+				assert.strictEqual(endpoint.isClosed(), false);
+				const exited = closed(endpoint);
+				endpoint.close();
+				assert.strictEqual(await exited, 'connection closed');
+				assert.strictEqual(endpoint.isClosed(), true);
+			} finally {
+				server.close();
+			}
+		});
+
+		test(`${name} reports the adapter closing the connection`, async () => {
+			const { server, port, sockets } = await listen();
+			try {
+				const endpoint = connect('127.0.0.1', port, output);
+				const exited = closed(endpoint);
+				await roundTrip(endpoint, { seq: 1, type: 'request', command: 'threads' });
+				sockets.forEach((socket) => socket.end());
+				assert.strictEqual(await exited, 'connection closed');
+				assert.strictEqual(endpoint.isClosed(), true);
+			} finally {
+				server.close();
+			}
+		});
+
+		test(`${name} reports a refused connection`, async () => {
+			const { server, port } = await listen();
+			await new Promise((resolve) => server.close(resolve));
+			const endpoint = connect('127.0.0.1', port, output);
+			endpoint.input.on('error', () => undefined);
+			assert.strictEqual(await closed(endpoint), 'connection closed with error');
+		});
+	}
+});
+
+suite('globToRegExp', () => {
+	test('"*" and "?" stay within one path segment', () => {
+		assert.ok(globToRegExp('src/*.cpp').test('src/a.cpp'));
+		assert.ok(!globToRegExp('src/*.cpp').test('src/sub/a.cpp'));
+		assert.ok(globToRegExp('lib?.so').test('lib1.so'));
+		assert.ok(!globToRegExp('lib?.so').test('lib/.so'));
+	});
+
+	test('"**/" spans any number of directories', () => {
+		const pattern = globToRegExp('**/build/*.so');
+		assert.ok(pattern.test('build/a.so'));
+		assert.ok(pattern.test('out/x/build/a.so'));
+		assert.ok(!pattern.test('out/build/sub/a.so'));
+		assert.ok(globToRegExp('third_party/**').test('third_party/a/b/c.h'));
+	});
+
+	test('regular expression characters are literal', () => {
+		assert.ok(globToRegExp('a+b(1).[ch]').test('a+b(1).[ch]'));
+		assert.ok(!globToRegExp('a.cpp').test('abcpp'));
+	});
+
+	test('backslashes in the glob are path separators', () => {
+		assert.ok(globToRegExp('src\\*.cpp').test('src/a.cpp'));
+	});
+});